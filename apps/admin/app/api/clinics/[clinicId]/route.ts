@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { parseClinicInput } from '../../../../lib/clinics';
+import { authorize } from '../../../../lib/auth';
+
+// GET: clinic with its staff and pending staff invites
+// PATCH: update clinic fields { name?, email?, phone?, address?, active? }
+//   an inactive clinic is no longer offered to managers; its open referrals stay with it
+export async function GET(req: Request, { params }: { params: { clinicId: string } }) {
+  try {
+    const auth = await authorize(req, 'clinics:manage');
+    if ('response' in auth) return auth.response;
+
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: params.clinicId },
+      include: {
+        staff: { orderBy: { email: 'asc' }, select: { id: true, email: true, name: true, role: true } },
+        invites: {
+          where: { acceptedAt: null, expiresAt: { gt: new Date() } },
+          select: { id: true, email: true, expiresAt: true },
+        },
+      },
+    });
+    if (!clinic) return new NextResponse('Clinic not found', { status: 404 });
+    return NextResponse.json(clinic);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: { params: { clinicId: string } }) {
+  try {
+    const auth = await authorize(req, 'clinics:manage');
+    if ('response' in auth) return auth.response;
+
+    const parsed = parseClinicInput(await req.json(), { partial: true });
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const existing = await prisma.clinic.findUnique({ where: { id: params.clinicId }, select: { id: true } });
+    if (!existing) return new NextResponse('Clinic not found', { status: 404 });
+
+    const updated = await prisma.clinic.update({ where: { id: params.clinicId }, data: parsed.data });
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    if (err?.code === 'P2002') return new NextResponse('A clinic with this name already exists', { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
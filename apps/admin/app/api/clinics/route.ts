@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { parseClinicInput } from '../../../lib/clinics';
+import { authorize } from '../../../lib/auth';
+
+// GET: list clinics with their staff count and open referrals
+// POST: create a clinic { name, email?, phone?, address?, active? }
+//   staff are added by inviting them with role CLINIC_STAFF and the clinic's id (see /api/invites)
+export async function GET(req: Request) {
+  try {
+    const auth = await authorize(req, 'clinics:manage');
+    if ('response' in auth) return auth.response;
+
+    const clinics = await prisma.clinic.findMany({
+      orderBy: { name: 'asc' },
+      include: {
+        _count: {
+          select: { staff: true, referrals: { where: { referralStatus: { in: ['PENDING', 'REFERRED'] } } } },
+        },
+      },
+    });
+    return NextResponse.json(clinics);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const auth = await authorize(req, 'clinics:manage');
+    if ('response' in auth) return auth.response;
+
+    const parsed = parseClinicInput(await req.json(), { partial: false });
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const created = await prisma.clinic.create({ data: { ...parsed.data, name: parsed.data.name! } });
+    return NextResponse.json(created);
+  } catch (err: any) {
+    if (err?.code === 'P2002') return new NextResponse('A clinic with this name already exists', { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { authorize } from '../../../../lib/auth';
+
+// DELETE: remove a commission rate (orders keep the rate stored on their lines)
+export async function DELETE(req: Request, { params }: { params: { rateId: string } }) {
+  try {
+    const auth = await authorize(req, 'commission:manage');
+    if ('response' in auth) return auth.response;
+
+    const { count } = await prisma.commissionRate.deleteMany({ where: { id: params.rateId } });
+    if (count === 0) return new NextResponse('Commission rate not found', { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { validateCommissionRate } from '../../../../../packages/vendor/src/commission';
+import { authorize } from '../../../lib/auth';
+
+// GET: all commission rates (promotions first, then by vendor/category)
+// - ?vendorId=... => only rates for that vendor (plus rates for every vendor)
+// POST: create a rate { rate, vendorId?, category?, startsAt?, endsAt?, label? }
+//   a rate with startsAt/endsAt is a promotion and wins over standing rates while it runs
+export async function GET(req: Request) {
+  try {
+    const auth = await authorize(req, 'commission:manage');
+    if ('response' in auth) return auth.response;
+
+    const vendorId = new URL(req.url).searchParams.get('vendorId');
+    const rates = await prisma.commissionRate.findMany({
+      where: vendorId ? { OR: [{ vendorId }, { vendorId: null }] } : {},
+      include: { vendor: { select: { id: true, name: true } } },
+      orderBy: [{ startsAt: { sort: 'desc', nulls: 'last' } }, { vendorId: 'asc' }, { category: 'asc' }],
+    });
+    return NextResponse.json(rates);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const auth = await authorize(req, 'commission:manage');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const invalid = validateCommissionRate(body.rate);
+    if (invalid) return new NextResponse(invalid, { status: 400 });
+
+    const startsAt = body.startsAt ? new Date(body.startsAt) : null;
+    const endsAt = body.endsAt ? new Date(body.endsAt) : null;
+    if ((startsAt && Number.isNaN(startsAt.getTime())) || (endsAt && Number.isNaN(endsAt.getTime()))) {
+      return new NextResponse('Invalid startsAt/endsAt', { status: 400 });
+    }
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      return new NextResponse('endsAt must be after startsAt', { status: 400 });
+    }
+
+    if (body.vendorId) {
+      const vendor = await prisma.vendor.findUnique({ where: { id: body.vendorId }, select: { id: true } });
+      if (!vendor) return new NextResponse('Vendor not found', { status: 404 });
+    }
+
+    const created = await prisma.commissionRate.create({
+      data: {
+        rate: body.rate,
+        vendorId: body.vendorId || null,
+        category: body.category ? String(body.category).trim() : null,
+        startsAt,
+        endsAt,
+        label: body.label ? String(body.label).trim() : null,
+      },
+    });
+    return NextResponse.json(created);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
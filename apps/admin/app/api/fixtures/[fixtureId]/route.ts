@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import {
+  assertTransition,
+  FixtureStatus,
+  FixtureTransitionError,
+  validateScore,
+} from '../../../../../../packages/league/src/fixtureLifecycle';
+import { authorize } from '../../../../lib/auth';
+
+/**
+ * PATCH { status, homeScore?, awayScore?, scheduledAt?, reason?, override? } — admin only
+ * - resolve a DISPUTED result: { status: 'COMPLETED', homeScore, awayScore }
+ * - override a final status (e.g. COMPLETED → SCHEDULED): { status, override: true, reason };
+ *   going back to SCHEDULED clears scores and reported scores
+ */
+export async function PATCH(req: Request, { params }: { params: { fixtureId: string } }) {
+  try {
+    const auth = await authorize(req, 'fixtures:resolve');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const status = body.status as FixtureStatus;
+    if (!['SCHEDULED', 'POSTPONED', 'COMPLETED', 'CANCELLED'].includes(status)) {
+      return new NextResponse('Invalid status', { status: 400 });
+    }
+
+    const override = !!body.override;
+    const reason = body.reason ? String(body.reason).trim() : null;
+    if (override && !reason) return new NextResponse('A reason is required for an override', { status: 400 });
+
+    const fixture = await prisma.fixture.findUnique({ where: { id: params.fixtureId } });
+    if (!fixture) return new NextResponse('Fixture not found', { status: 404 });
+    assertTransition(fixture.status, status, { override });
+
+    const data: Record<string, unknown> = { status, statusReason: reason ?? fixture.statusReason };
+
+    if (status === 'COMPLETED') {
+      const invalid = validateScore(body.homeScore, body.awayScore);
+      if (invalid) return new NextResponse(invalid, { status: 400 });
+      Object.assign(data, { homeScore: body.homeScore, awayScore: body.awayScore, resultStatus: 'CONFIRMED' });
+    } else {
+      Object.assign(data, { homeScore: null, awayScore: null, resultStatus: 'NONE' });
+    }
+
+    if (body.scheduledAt) {
+      const scheduledAt = new Date(body.scheduledAt);
+      if (Number.isNaN(scheduledAt.getTime())) return new NextResponse('Invalid scheduledAt', { status: 400 });
+      Object.assign(data, { scheduledAt, pitchId: null });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (status !== 'COMPLETED') {
+        await tx.scoreReport.deleteMany({ where: { fixtureId: fixture.id } });
+      }
+      return tx.fixture.update({ where: { id: fixture.id }, data });
+    });
+
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    if (err instanceof FixtureTransitionError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
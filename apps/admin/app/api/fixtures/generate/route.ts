@@ -1,83 +1,300 @@
-```ts
 import { NextResponse } from 'next/server';
-import { prisma } from '../../../../packages/db/src/prisma';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import {
+  DEFAULT_SCHEDULE_OPTIONS,
+  generateSchedule,
+  nextMatchDay,
+  roundDates,
+  ScheduleOptions,
+  SchedulingError,
+} from '../../../../../../packages/scheduling/src/schedule';
+import { allocateVenues } from '../../../../../../packages/scheduling/src/venues';
+import { currentSeason, ensureCurrentSeason, joinSeason } from '../../../../lib/seasons';
+import { authorize } from '../../../../lib/auth';
+
+type GenerateMode = 'dryRun' | 'create' | 'regenerate';
+const MODES: GenerateMode[] = ['dryRun', 'create', 'regenerate'];
 
 /**
- * POST { leagueId }
- * - loads teams in the league
- * - runs round-robin generator (skips BYEs)
- * - creates fixtures (one round per week, starting next Saturday at 10:00)
+ * POST { leagueId, seasonId?, mode?, options? }
+ * - loads the teams of the season (default: the league's current season)
+ * - runs the shared scheduling engine (same options as the admin preview => same fixtures)
+ * - defaults come from the season / league settings (start date, match format); without a stored
+ *   start date the season starts next Saturday at 10:00
+ * - refuses schedules that run past the league's end date
+ * - mode:
+ *    - dryRun:     write nothing; return the fixtures a regenerate would create, with the counts it
+ *                  would create, keep and delete
+ *    - create:     (default) refuse with 409 if the season already has fixtures
+ *    - regenerate: replace SCHEDULED fixtures; COMPLETED/POSTPONED/CANCELLED ones (and scores) are kept,
+ *                  and pairings already kept are not scheduled again (either way round in SINGLE format).
+ *                  The replacements are played in order from the first match day after the last kept fixture
+ * - assigns a venue, pitch and kick-off slot to each fixture without double-booking any pitch
+ *   (home team's venue first); fixtures that cannot be placed are created without a venue
+ *   and listed in `unplaced`
+ * - everything runs in one serializable transaction, so repeating the call never duplicates a season
+ *
+ * Response: { mode, dryRun, created, kept, deleted, fixtures, unplaced }
  */
 export async function POST(req: Request) {
   try {
+    const auth = await authorize(req, 'fixtures:generate');
+    if ('response' in auth) return auth.response;
+
     const body = await req.json();
     const leagueId = body.leagueId;
     if (!leagueId) return new NextResponse('Missing leagueId', { status: 400 });
 
-    const teams = await prisma.team.findMany({
-      where: { leagueId },
-      orderBy: { name: 'asc' },
-      select: { id: true, name: true },
+    const mode: GenerateMode = body.mode ?? 'create';
+    if (!MODES.includes(mode)) {
+      return new NextResponse(`Invalid mode (expected one of ${MODES.join(', ')})`, { status: 400 });
+    }
+
+    const league = await prisma.league.findUnique({
+      where: { id: leagueId },
+      select: { startDate: true, endDate: true, matchFormat: true },
     });
+    if (!league) return new NextResponse('League not found', { status: 404 });
+
+    const season = body.seasonId
+      ? await prisma.season.findFirst({ where: { id: body.seasonId, leagueId } })
+      : await currentSeason(prisma, leagueId);
+    if (body.seasonId && !season) return new NextResponse('Season not found', { status: 404 });
+    if (season?.status === 'COMPLETED') {
+      return new NextResponse('Season is completed; roll over to a new season first', { status: 409 });
+    }
+
+    // Season members when the league has a season, else the teams currently in the league
+    const teams = season
+      ? (
+          await prisma.seasonTeam.findMany({
+            where: { seasonId: season.id, leftAt: null },
+            select: { team: { select: { id: true, name: true, homeVenueId: true } } },
+          })
+        )
+          .map((m) => m.team)
+          .sort((a, b) => a.name.localeCompare(b.name))
+      : await prisma.team.findMany({
+          where: { leagueId },
+          orderBy: { name: 'asc' },
+          select: { id: true, name: true, homeVenueId: true },
+        });
 
     if (teams.length < 2) {
       return new NextResponse('At least two teams are required', { status: 400 });
     }
 
-    // Build round-robin schedule (server-side)
-    const items = teams.map((t) => ({ id: t.id, name: t.name }));
-    const isOdd = items.length % 2 === 1;
-    if (isOdd) {
-      items.push({ id: 'BYE', name: 'BYE' } as any);
+    // Stored season settings are the defaults; the preview may send explicit overrides
+    const startDate = season?.startDate ?? league.startDate;
+    const endDate = season?.endDate ?? league.endDate;
+    const options: ScheduleOptions = {
+      format: league.matchFormat === 'DOUBLE_ROUND_ROBIN' ? 'DOUBLE' : 'SINGLE',
+      ...(body.options ?? {}),
+      startDate: body.options?.startDate ?? (startDate ? startDate.toISOString().slice(0, 10) : nextMatchDay(new Date())),
+    };
+
+    let schedule;
+    try {
+      schedule = generateSchedule(teams, options);
+    } catch (err) {
+      if (err instanceof SchedulingError) return new NextResponse(err.message, { status: 400 });
+      throw err;
     }
 
-    const n = items.length;
-    const rounds = n - 1;
-    const half = n / 2;
-
-    // compute first round date: next Saturday at 10:00
-    const now = new Date();
-    const daysUntilSat = ((6 - now.getDay()) + 7) % 7 || 7;
-    const start = new Date(now);
-    start.setDate(now.getDate() + daysUntilSat);
-    start.setHours(10, 0, 0, 0);
-
-    let rotation = items.slice();
-    const createdFixtures: any[] = [];
-
-    for (let round = 0; round < rounds; round++) {
-      const roundDate = new Date(start);
-      roundDate.setDate(start.getDate() + round * 7); // weekly
-
-      const pairs: Array<{ homeId: string; awayId: string }> = [];
-      for (let i = 0; i < half; i++) {
-        const t1 = rotation[i];
-        const t2 = rotation[n - 1 - i];
-        if (t1.id === 'BYE' || t2.id === 'BYE') continue;
-        pairs.push({ homeId: t1.id, awayId: t2.id });
-      }
-
-      // persist pairs as fixtures
-      for (const p of pairs) {
-        const f = await prisma.fixture.create({
-          data: {
+    const pastEnd = pastEndDate(schedule, endDate);
+    if (pastEnd) return new NextResponse(pastEnd, { status: 400 });
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const existing = await tx.fixture.findMany({
+          where: season ? { seasonId: season.id } : { leagueId },
+          select: { id: true, homeTeamId: true, awayTeamId: true, status: true, scheduledAt: true },
+        });
+
+        if (mode === 'create' && existing.length > 0) {
+          return { conflict: `Season already has ${existing.length} fixtures; use mode "regenerate"` };
+        }
+
+        const replaceable = existing.filter((f) => f.status === 'SCHEDULED');
+        const kept = existing.filter((f) => f.status !== 'SCHEDULED');
+        const keptPairs = new Set(kept.map((f) => pairKey(f.homeTeamId, f.awayTeamId, options.format)));
+        const remaining = schedule.filter((f) => !keptPairs.has(pairKey(f.home.id, f.away.id, options.format)));
+
+        const redated = redateAfter(remaining, kept, options);
+        const redatedPastEnd = pastEndDate(redated, endDate);
+        if (redatedPastEnd) return { invalid: redatedPastEnd };
+
+        const pending = redated.map((f) => ({
+          homeTeamId: f.home.id,
+          awayTeamId: f.away.id,
+          scheduledAt: f.scheduledAt,
+          homeVenueId: f.home.homeVenueId,
+        }));
+
+        const { placed, unplaced } = await placeFixtures(
+          tx,
+          pending,
+          replaceable.map((f) => f.id),
+          options.utcOffsetMinutes ?? 0
+        );
+
+        const toCreate = [
+          ...placed.map((f) => ({
+            leagueId,
+            homeTeamId: f.homeTeamId,
+            awayTeamId: f.awayTeamId,
+            scheduledAt: new Date(f.scheduledAt),
+            venueId: f.venueId,
+            pitchId: f.pitchId,
+            venue: f.venueLabel,
+            status: 'SCHEDULED' as const,
+          })),
+          ...unplaced.map(({ fixture: f }) => ({
             leagueId,
-            homeTeamId: p.homeId,
-            awayTeamId: p.awayId,
-            scheduledAt: roundDate,
-            status: 'SCHEDULED',
-          },
+            homeTeamId: f.homeTeamId,
+            awayTeamId: f.awayTeamId,
+            scheduledAt: new Date(f.scheduledAt),
+            status: 'SCHEDULED' as const,
+          })),
+        ].sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+
+        const unplacedReport = unplaced.map(({ fixture: f, reason }) => ({
+          homeTeamId: f.homeTeamId,
+          awayTeamId: f.awayTeamId,
+          scheduledAt: f.scheduledAt,
+          reason,
+        }));
+
+        if (mode === 'dryRun') {
+          return {
+            dryRun: true,
+            created: toCreate.length,
+            kept: kept.length,
+            deleted: replaceable.length,
+            fixtures: toCreate,
+            unplaced: unplacedReport,
+          };
+        }
+
+        // First generation for a league without seasons opens one with the current teams
+        let seasonId = season?.id;
+        if (!seasonId) {
+          seasonId = (await ensureCurrentSeason(tx, leagueId)).id;
+          for (const t of teams) await joinSeason(tx, seasonId, t.id);
+        }
+
+        if (replaceable.length > 0) {
+          await tx.fixture.deleteMany({ where: { id: { in: replaceable.map((f) => f.id) } } });
+        }
+        await tx.fixture.createMany({ data: toCreate.map((f) => ({ ...f, seasonId })) });
+        const fixtures = await tx.fixture.findMany({
+          where: { seasonId, status: 'SCHEDULED' },
+          orderBy: { scheduledAt: 'asc' },
         });
-        createdFixtures.push(f);
-      }
 
-      // rotate (keep first element fixed)
-      rotation = [rotation[0], ...rotation.slice(1).slice(-1), ...rotation.slice(1, -1)];
-    }
+        return {
+          dryRun: false,
+          created: toCreate.length,
+          kept: kept.length,
+          deleted: replaceable.length,
+          fixtures,
+          unplaced: unplacedReport,
+        };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
 
-    return NextResponse.json(createdFixtures);
+    if ('conflict' in result) return new NextResponse(result.conflict, { status: 409 });
+    if ('invalid' in result) return new NextResponse(result.invalid, { status: 400 });
+
+    return NextResponse.json({ mode, ...result });
   } catch (err: any) {
     console.error(err);
     return new NextResponse(err?.message ?? 'Server error', { status: 500 });
   }
+}
+
+/**
+ * Key of a pairing: in SINGLE format A–B and B–A are the same game, in DOUBLE format they are
+ * the two legs.
+ */
+function pairKey(homeTeamId: string, awayTeamId: string, format: ScheduleOptions['format']) {
+  if (format === 'DOUBLE') return `${homeTeamId}:${awayTeamId}`;
+  return [homeTeamId, awayTeamId].sort().join(':');
+}
+
+function pastEndDate(fixtures: { scheduledAt: string }[], endDate: Date | null) {
+  const lastKickoff = fixtures[fixtures.length - 1]?.scheduledAt;
+  if (!endDate || !lastKickoff || lastKickoff.slice(0, 10) <= endDate.toISOString().slice(0, 10)) return null;
+  return (
+    `Schedule runs until ${lastKickoff.slice(0, 10)}, past the season end date ` +
+    `${endDate.toISOString().slice(0, 10)}`
+  );
+}
+
+/**
+ * Move the fixtures still to be played after the kept ones: their rounds keep their order and
+ * take consecutive round dates from the first match day after the last kept fixture, so no
+ * replacement lands in a round that has already been played.
+ */
+function redateAfter<F extends { round: number; scheduledAt: string }>(
+  fixtures: F[],
+  kept: { scheduledAt: Date }[],
+  options: ScheduleOptions
+): F[] {
+  if (kept.length === 0 || fixtures.length === 0) return fixtures;
+
+  const lastKept = new Date(Math.max(...kept.map((f) => f.scheduledAt.getTime())));
+  const restart = nextMatchDay(
+    lastKept,
+    options.weekday ?? DEFAULT_SCHEDULE_OPTIONS.weekday,
+    options.utcOffsetMinutes ?? DEFAULT_SCHEDULE_OPTIONS.utcOffsetMinutes
+  );
+  if (restart <= options.startDate) return fixtures;
+
+  const rounds = [...new Set(fixtures.map((f) => f.round))].sort((a, b) => a - b);
+  const dates = roundDates(rounds.length, { ...options, startDate: restart });
+  const dateOfRound = new Map(rounds.map((round, i) => [round, dates[i]]));
+  return fixtures.map((f) => ({ ...f, scheduledAt: dateOfRound.get(f.round)! }));
+}
+
+/**
+ * Allocate venues against the current pitch bookings (any league), ignoring the
+ * fixtures about to be replaced.
+ */
+async function placeFixtures<F extends { scheduledAt: string; homeVenueId: string | null }>(
+  tx: Prisma.TransactionClient,
+  fixtures: F[],
+  replacingIds: string[],
+  utcOffsetMinutes: number
+) {
+  if (fixtures.length === 0) return { placed: [], unplaced: [] };
+
+  const times = fixtures.map((f) => new Date(f.scheduledAt).getTime());
+  const from = new Date(Math.min(...times) - 24 * 60 * 60 * 1000);
+  const to = new Date(Math.max(...times) + 24 * 60 * 60 * 1000);
+
+  const [venues, bookings] = await Promise.all([
+    tx.venue.findMany({
+      include: {
+        pitches: { select: { id: true, name: true }, orderBy: { name: 'asc' } },
+        openingHours: { select: { weekday: true, opensAt: true, closesAt: true } },
+      },
+    }),
+    tx.fixture.findMany({
+      where: {
+        pitchId: { not: null },
+        scheduledAt: { gte: from, lte: to },
+        status: { in: ['SCHEDULED', 'POSTPONED'] },
+        id: { notIn: replacingIds },
+      },
+      select: { venueId: true, pitchId: true, scheduledAt: true },
+    }),
+  ]);
+
+  return allocateVenues(fixtures, venues, {
+    bookings: bookings.map((b) => ({ venueId: b.venueId!, pitchId: b.pitchId!, scheduledAt: b.scheduledAt })),
+    utcOffsetMinutes,
+  });
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { RESULT_STATUSES, ResultStatus } from '../../../../../packages/league/src/fixtureLifecycle';
+import { authorize } from '../../../lib/auth';
+
+// GET fixtures:
+// - ?leagueId=...                => fixtures in league
+// - ?resultStatus=DISPUTED       => results waiting for an admin to resolve
+export async function GET(req: Request) {
+  try {
+    const auth = await authorize(req, 'fixtures:read');
+    if ('response' in auth) return auth.response;
+
+    const url = new URL(req.url);
+    const leagueId = url.searchParams.get('leagueId');
+    const resultStatus = url.searchParams.get('resultStatus') as ResultStatus | null;
+    if (resultStatus && !RESULT_STATUSES.includes(resultStatus)) {
+      return new NextResponse(`Invalid resultStatus (expected one of ${RESULT_STATUSES.join(', ')})`, { status: 400 });
+    }
+
+    const fixtures = await prisma.fixture.findMany({
+      where: {
+        ...(leagueId ? { leagueId } : {}),
+        ...(resultStatus ? { resultStatus } : {}),
+      },
+      orderBy: { scheduledAt: 'asc' },
+      include: {
+        homeTeam: { select: { id: true, name: true } },
+        awayTeam: { select: { id: true, name: true } },
+        // Unconfirmed reports are for admins only; managers see their own side in the manager app
+        ...(auth.caller.role === 'ADMIN'
+          ? { scoreReports: { select: { teamId: true, homeScore: true, awayScore: true } } }
+          : {}),
+      },
+    });
+    return NextResponse.json(fixtures);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
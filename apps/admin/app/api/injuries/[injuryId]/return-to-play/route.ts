@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { parseStageChange, ReturnToPlayError } from '../../../../../../../packages/injuries/src/returnToPlay';
+import { changeReturnToPlayStage } from '../../../../../../../packages/injuries/src/returnToPlayRecords';
+import { SafeguardingError } from '../../../../../../../packages/injuries/src/safeguarding';
+import { authorize } from '../../../../../lib/auth';
+
+const RETURN_TO_PLAY_SELECT = {
+  id: true,
+  injuryType: true,
+  severity: true,
+  returnToPlayStage: true,
+  expectedReturnDate: true,
+  clearedAt: true,
+  clearedByName: true,
+  clearanceSource: true,
+  clinic: { select: { id: true, name: true } },
+  player: { select: { id: true, firstName: true, lastName: true } },
+} as const;
+
+/**
+ * PATCH { signedOffBy, stage?, expectedReturnDate?, note? } — record a medic's return-to-play sign-off
+ * - for injuries the clinic portal cannot clear, e.g. ones with no clinic or seen by a team or league medic
+ * - signedOffBy: the medic who signed off; recorded with source MEDIC and the admin who entered it
+ * - same stage rules as the manager app; HIGH and CRITICAL injuries can be cleared with the sign-off
+ *   and the reporting manager is notified
+ * - a Head injury can only be CLEARED after its stand-down and once the clearance document is recorded
+ */
+export async function PATCH(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await authorize(req, 'injuries:clear');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const signedOffBy = String(body.signedOffBy || '').trim();
+    if (!signedOffBy) return new NextResponse("signedOffBy (the medic's name) is required", { status: 400 });
+    const parsed = parseStageChange(body);
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const exists = await prisma.injury.findUnique({ where: { id: params.injuryId }, select: { id: true } });
+    if (!exists) return new NextResponse('Injury not found', { status: 404 });
+
+    const injury = await prisma.$transaction(async (tx) => {
+      await changeReturnToPlayStage(tx, params.injuryId, parsed.data, {
+        id: auth.caller.id,
+        signOff: { name: signedOffBy, source: 'MEDIC' },
+      });
+      return tx.injury.findUnique({ where: { id: params.injuryId }, select: RETURN_TO_PLAY_SELECT });
+    });
+    return NextResponse.json(injury);
+  } catch (err: any) {
+    if (err instanceof ReturnToPlayError || err instanceof SafeguardingError) {
+      return new NextResponse(err.message, { status: 409 });
+    }
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { inviteUser, InviteError } from '../../../../../packages/auth/src/server';
+import { authorize } from '../../../lib/auth';
+
+// GET: pending (not accepted, not expired) invites, newest first
+// POST: invite someone { email, role, clinicId? } (MANAGER, VENDOR or CLINIC_STAFF); they get that role on
+//   first sign-in. CLINIC_STAFF invites need the clinicId of the clinic they will work for.
+export async function GET(req: Request) {
+  try {
+    const auth = await authorize(req, 'users:invite');
+    if ('response' in auth) return auth.response;
+
+    const invites = await prisma.userInvite.findMany({
+      where: { acceptedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true,
+        clinic: { select: { id: true, name: true } },
+      },
+    });
+    return NextResponse.json(invites);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const auth = await authorize(req, 'users:invite');
+    if ('response' in auth) return auth.response;
+
+    const { email, role, clinicId } = await req.json();
+    if (!email) return new NextResponse('Missing email', { status: 400 });
+    if (!role) return new NextResponse('Missing role', { status: 400 });
+
+    const invite = await inviteUser({ email: String(email), role, clinicId, invitedById: auth.caller.id });
+    return NextResponse.json(invite);
+  } catch (err: any) {
+    if (err instanceof InviteError) return new NextResponse(err.message, { status: 400 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { parseLeagueSettings } from '../../../../lib/leagues';
+import { authorize } from '../../../../lib/auth';
+
+// GET: league with its season settings
+// PATCH: update season settings { name?, startDate?, endDate?, teamLimit?, matchFormat?, points rules? }
+export async function GET(req: Request, { params }: { params: { leagueId: string } }) {
+  const auth = await authorize(req, 'leagues:read');
+  if ('response' in auth) return auth.response;
+
+  const league = await prisma.league.findUnique({ where: { id: params.leagueId } });
+  if (!league) return new NextResponse('League not found', { status: 404 });
+  return NextResponse.json(league);
+}
+
+export async function PATCH(req: Request, { params }: { params: { leagueId: string } }) {
+  try {
+    const auth = await authorize(req, 'leagues:write');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const league = await prisma.league.findUnique({
+      where: { id: params.leagueId },
+      include: { _count: { select: { teams: true } } },
+    });
+    if (!league) return new NextResponse('League not found', { status: 404 });
+
+    const parsed = parseLeagueSettings(body, { partial: true, current: league });
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const { teamLimit } = parsed.data;
+    if (teamLimit != null && teamLimit < league._count.teams) {
+      return new NextResponse(
+        `League already has ${league._count.teams} teams; remove teams before lowering the limit to ${teamLimit}`,
+        { status: 409 }
+      );
+    }
+
+    const updated = await prisma.league.update({
+      where: { id: league.id },
+      data: parsed.data,
+    });
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
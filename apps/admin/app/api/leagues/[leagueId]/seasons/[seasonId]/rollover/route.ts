@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../../../packages/db/src/prisma';
+import { planRollover, RolloverError } from '../../../../../../../../../packages/league/src/seasons';
+import { findOrCreateSeason, joinSeason, seasonStandings } from '../../../../../../../lib/seasons';
+import { authorize } from '../../../../../../../lib/auth';
+
+/**
+ * POST { name, startDate?, endDate?, promote?: { count, toLeagueId }, relegate?: { count, toLeagueId } }
+ * - closes the season (COMPLETED) and records each team's final position
+ * - opens the next season `name` in this league (ACTIVE) with the teams that stay
+ * - promoted / relegated teams join season `name` of the target league and move there
+ *
+ * Response: { previousSeasonId, season, staying, promoted, relegated }
+ */
+export async function POST(req: Request, { params }: { params: { leagueId: string; seasonId: string } }) {
+  try {
+    const auth = await authorize(req, 'seasons:write');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const name = String(body.name || '').trim();
+    if (!name) return new NextResponse('Missing name for the next season', { status: 400 });
+
+    const startDate = body.startDate ? new Date(body.startDate) : null;
+    const endDate = body.endDate ? new Date(body.endDate) : null;
+    if ((startDate && Number.isNaN(startDate.getTime())) || (endDate && Number.isNaN(endDate.getTime()))) {
+      return new NextResponse('Invalid startDate or endDate', { status: 400 });
+    }
+    if (startDate && endDate && endDate <= startDate) {
+      return new NextResponse('endDate must be after startDate', { status: 400 });
+    }
+    const promote = { count: Number(body.promote?.count ?? 0), toLeagueId: body.promote?.toLeagueId ?? null };
+    const relegate = { count: Number(body.relegate?.count ?? 0), toLeagueId: body.relegate?.toLeagueId ?? null };
+    for (const [label, move] of [
+      ['promote', promote],
+      ['relegate', relegate],
+    ] as const) {
+      if (move.count > 0 && !move.toLeagueId) {
+        return new NextResponse(`${label}.toLeagueId is required when ${label}.count > 0`, { status: 400 });
+      }
+      if (move.toLeagueId === params.leagueId) {
+        return new NextResponse(`${label}.toLeagueId must be a different league`, { status: 400 });
+      }
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const season = await tx.season.findFirst({
+        where: { id: params.seasonId, leagueId: params.leagueId },
+        include: { teams: { where: { leftAt: null }, select: { teamId: true } } },
+      });
+      if (!season) return { status: 404, error: 'Season not found' };
+      if (season.status === 'COMPLETED') return { status: 409, error: 'Season is already completed' };
+      if (season.name === name) return { status: 400, error: 'The next season needs a different name' };
+
+      const targets = new Map<string, { teamLimit: number | null; teams: number }>();
+      for (const leagueId of [promote.toLeagueId, relegate.toLeagueId]) {
+        if (!leagueId || targets.has(leagueId)) continue;
+        const league = await tx.league.findUnique({
+          where: { id: leagueId },
+          select: { teamLimit: true, _count: { select: { teams: true } } },
+        });
+        if (!league) return { status: 404, error: `League ${leagueId} not found` };
+        targets.set(leagueId, { teamLimit: league.teamLimit, teams: league._count.teams });
+      }
+
+      const table = await seasonStandings(tx, season.id);
+      const members = new Set(season.teams.map((m) => m.teamId));
+      const plan = planRollover(
+        table.filter((row) => members.has(row.teamId)),
+        { promote: promote.count, relegate: relegate.count }
+      );
+
+      // Moving teams must fit in the target league (promote and relegate may share one)
+      for (const [teamIds, toLeagueId] of [
+        [plan.promoted, promote.toLeagueId],
+        [plan.relegated, relegate.toLeagueId],
+      ] as const) {
+        const target = toLeagueId ? targets.get(toLeagueId) : undefined;
+        if (!target || teamIds.length === 0) continue;
+        target.teams += teamIds.length;
+        if (target.teamLimit != null && target.teams > target.teamLimit) {
+          return {
+            status: 409,
+            error: `League ${toLeagueId} would have ${target.teams} teams, over its limit of ${target.teamLimit}`,
+          };
+        }
+      }
+
+      for (const row of table) {
+        await tx.seasonTeam.update({
+          where: { seasonId_teamId: { seasonId: season.id, teamId: row.teamId } },
+          data: { finalPosition: row.position },
+        });
+      }
+      await tx.season.update({ where: { id: season.id }, data: { status: 'COMPLETED' } });
+
+      const next = await findOrCreateSeason(tx, params.leagueId, { name, startDate, endDate });
+      const activated = await tx.season.update({ where: { id: next.id }, data: { status: 'ACTIVE' } });
+      for (const teamId of plan.staying) await joinSeason(tx, activated.id, teamId);
+
+      for (const [teamIds, toLeagueId] of [
+        [plan.promoted, promote.toLeagueId],
+        [plan.relegated, relegate.toLeagueId],
+      ] as const) {
+        if (teamIds.length === 0 || !toLeagueId) continue;
+        const target = await findOrCreateSeason(tx, toLeagueId, { name, startDate, endDate });
+        for (const teamId of teamIds) {
+          await joinSeason(tx, target.id, teamId);
+          await tx.team.update({ where: { id: teamId }, data: { leagueId: toLeagueId } });
+        }
+      }
+
+      return {
+        previousSeasonId: season.id,
+        season: activated,
+        staying: plan.staying,
+        promoted: plan.promoted,
+        relegated: plan.relegated,
+      };
+    });
+
+    if ('error' in result) return new NextResponse(result.error, { status: result.status });
+    return NextResponse.json(result);
+  } catch (err: any) {
+    if (err instanceof RolloverError) return new NextResponse(err.message, { status: 400 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { authorize } from '../../../../../lib/auth';
+
+// GET: seasons of the league, newest first, with team counts
+// POST: create a PLANNED season { name, startDate?, endDate? }
+export async function GET(req: Request, { params }: { params: { leagueId: string } }) {
+  try {
+    const auth = await authorize(req, 'leagues:read');
+    if ('response' in auth) return auth.response;
+
+    const seasons = await prisma.season.findMany({
+      where: { leagueId: params.leagueId },
+      orderBy: [{ startDate: 'desc' }, { createdAt: 'desc' }],
+      include: { _count: { select: { teams: true, fixtures: true } } },
+    });
+    return NextResponse.json(seasons);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: { params: { leagueId: string } }) {
+  try {
+    const auth = await authorize(req, 'seasons:write');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const name = String(body.name || '').trim();
+    if (!name) return new NextResponse('Missing season name', { status: 400 });
+
+    const startDate = body.startDate ? new Date(body.startDate) : null;
+    const endDate = body.endDate ? new Date(body.endDate) : null;
+    if ((startDate && Number.isNaN(startDate.getTime())) || (endDate && Number.isNaN(endDate.getTime()))) {
+      return new NextResponse('Invalid startDate or endDate', { status: 400 });
+    }
+    if (startDate && endDate && endDate <= startDate) {
+      return new NextResponse('endDate must be after startDate', { status: 400 });
+    }
+
+    const league = await prisma.league.findUnique({ where: { id: params.leagueId }, select: { id: true } });
+    if (!league) return new NextResponse('League not found', { status: 404 });
+
+    const existing = await prisma.season.findUnique({
+      where: { leagueId_name: { leagueId: league.id, name } },
+      select: { id: true },
+    });
+    if (existing) return new NextResponse(`Season "${name}" already exists`, { status: 409 });
+
+    const created = await prisma.season.create({
+      data: { leagueId: league.id, name, startDate, endDate, status: 'PLANNED' },
+    });
+    return NextResponse.json(created);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
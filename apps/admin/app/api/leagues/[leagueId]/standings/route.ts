@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { currentSeason, seasonStandings } from '../../../../../lib/seasons';
+import { authorize } from '../../../../../lib/auth';
+
+// GET: league table from COMPLETED fixtures, using the league's points and tie-breaker rules
+// - ?seasonId=... => that season (default: the league's current season)
+export async function GET(req: Request, { params }: { params: { leagueId: string } }) {
+  try {
+    const auth = await authorize(req, 'leagues:read');
+    if ('response' in auth) return auth.response;
+
+    const url = new URL(req.url);
+    const seasonId = url.searchParams.get('seasonId');
+
+    const season = seasonId
+      ? await prisma.season.findFirst({ where: { id: seasonId, leagueId: params.leagueId } })
+      : await currentSeason(prisma, params.leagueId);
+    if (!season) {
+      const league = await prisma.league.findUnique({ where: { id: params.leagueId }, select: { id: true } });
+      if (!league) return new NextResponse('League not found', { status: 404 });
+      return seasonId ? new NextResponse('Season not found', { status: 404 }) : NextResponse.json([]);
+    }
+
+    const table = await seasonStandings(prisma, season.id);
+    return NextResponse.json(table);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -1,21 +1,60 @@
-```ts
 import { NextResponse } from 'next/server';
-import { prisma } from '../../../../../packages/db/src/prisma';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { ensureCurrentSeason, joinSeason, leaveCurrentSeason } from '../../../../../lib/seasons';
+import { authorize } from '../../../../../lib/auth';
 
-// POST: assign team to league { teamId }
-// DELETE: unassign team from league { teamId }
+// POST: assign team to league { teamId, force? } (also joins the league's current season)
+// DELETE: unassign team from league { teamId, force? } (marks it as having left the current season)
+//
+// Refusals are JSON { error, canForce }:
+// - 404 league or team does not exist
+// - 409 league is at its team limit (canForce: false)
+// - 409 team still has SCHEDULED fixtures in the league it is leaving (canForce: true; retry with force)
 export async function POST(req: Request, { params }: { params: { leagueId: string } }) {
   try {
+    const auth = await authorize(req, 'leagues:assignTeams');
+    if ('response' in auth) return auth.response;
+
     const leagueId = params.leagueId;
-    const { teamId } = await req.json();
+    const { teamId, force } = await req.json();
     if (!teamId) return new NextResponse('Missing teamId', { status: 400 });
 
-    // Optional: enforce team limit, permission checks, etc.
-    await prisma.team.update({
-      where: { id: teamId },
-      data: { leagueId },
-    });
+    const refusal = await prisma.$transaction(
+      async (tx) => {
+        const [league, team] = await Promise.all([
+          tx.league.findUnique({
+            where: { id: leagueId },
+            select: { teamLimit: true, _count: { select: { teams: true } } },
+          }),
+          tx.team.findUnique({ where: { id: teamId }, select: { leagueId: true } }),
+        ]);
+        if (!league) return refuse(404, 'League not found');
+        if (!team) return refuse(404, 'Team not found');
+        if (team.leagueId === leagueId) return null; // already assigned
+
+        if (league.teamLimit != null && league._count.teams >= league.teamLimit) {
+          return refuse(409, `League is full (${league._count.teams}/${league.teamLimit} teams)`);
+        }
+
+        if (team.leagueId && !force) {
+          const blocked = await scheduledFixturesRefusal(tx, teamId, team.leagueId);
+          if (blocked) return blocked;
+        }
 
+        await tx.team.update({
+          where: { id: teamId },
+          data: { leagueId },
+        });
+        if (team.leagueId) await leaveCurrentSeason(tx, team.leagueId, teamId);
+        const season = await ensureCurrentSeason(tx, leagueId);
+        await joinSeason(tx, season.id, teamId);
+        return null;
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    if (refusal) return NextResponse.json(refusal.body, { status: refusal.status });
     return NextResponse.json({ ok: true });
   } catch (err: any) {
     console.error(err);
@@ -25,13 +64,31 @@ export async function POST(req: Request, { params }: { params: { leagueId: strin
 
 export async function DELETE(req: Request, { params }: { params: { leagueId: string } }) {
   try {
-    const { teamId } = await req.json();
+    const auth = await authorize(req, 'leagues:assignTeams');
+    if ('response' in auth) return auth.response;
+
+    const leagueId = params.leagueId;
+    const { teamId, force } = await req.json();
     if (!teamId) return new NextResponse('Missing teamId', { status: 400 });
 
-    // Unassign team (set leagueId = null)
-    await prisma.team.update({
-      where: { id: teamId },
-      data: { leagueId: null },
+    const team = await prisma.team.findUnique({ where: { id: teamId }, select: { leagueId: true } });
+    if (!team) return NextResponse.json({ error: 'Team not found', canForce: false }, { status: 404 });
+    if (team.leagueId !== leagueId) {
+      return NextResponse.json({ error: 'Team is not in this league', canForce: false }, { status: 409 });
+    }
+
+    if (!force) {
+      const blocked = await scheduledFixturesRefusal(prisma, teamId, leagueId);
+      if (blocked) return NextResponse.json(blocked.body, { status: blocked.status });
+    }
+
+    // Unassign team (set leagueId = null); the season keeps its membership history
+    await prisma.$transaction(async (tx) => {
+      await tx.team.update({
+        where: { id: teamId },
+        data: { leagueId: null },
+      });
+      await leaveCurrentSeason(tx, leagueId, teamId);
     });
 
     return NextResponse.json({ ok: true });
@@ -39,4 +96,22 @@ export async function DELETE(req: Request, { params }: { params: { leagueId: str
     console.error(err);
     return new NextResponse(err?.message ?? 'Server error', { status: 500 });
   }
+}
+
+type Refusal = { status: number; body: { error: string; canForce: boolean } };
+
+function refuse(status: number, error: string, canForce = false): Refusal {
+  return { status, body: { error, canForce } };
+}
+
+async function scheduledFixturesRefusal(
+  db: Prisma.TransactionClient,
+  teamId: string,
+  leagueId: string
+): Promise<Refusal | null> {
+  const scheduled = await db.fixture.count({
+    where: { leagueId, status: 'SCHEDULED', OR: [{ homeTeamId: teamId }, { awayTeamId: teamId }] },
+  });
+  if (scheduled === 0) return null;
+  return refuse(409, `Team has ${scheduled} scheduled fixtures in its current league`, true);
 }
\ No newline at end of file
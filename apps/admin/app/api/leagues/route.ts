@@ -1,10 +1,14 @@
-```ts
 import { NextResponse } from 'next/server';
-import { prisma } from '../../../../packages/db/src/prisma';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { parseLeagueSettings } from '../../../lib/leagues';
+import { authorize } from '../../../lib/auth';
 
 // GET: list leagues
-// POST: create a league
-export async function GET() {
+// POST: create a league { name, startDate?, endDate?, teamLimit?, matchFormat?, points rules? }
+export async function GET(req: Request) {
+  const auth = await authorize(req, 'leagues:read');
+  if ('response' in auth) return auth.response;
+
   const leagues = await prisma.league.findMany({
     orderBy: { createdAt: 'desc' },
   });
@@ -13,26 +17,18 @@ export async function GET() {
 
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    const name = String(body.name || '').trim();
-    const startDate = body.startDate ? new Date(body.startDate) : null;
-    const teamLimit = body.teamLimit == null ? null : Number(body.teamLimit);
+    const auth = await authorize(req, 'leagues:write');
+    if ('response' in auth) return auth.response;
 
-    if (!name) return new NextResponse('Missing league name', { status: 400 });
+    const body = await req.json();
+    const parsed = parseLeagueSettings(body, { partial: false });
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
 
     const created = await prisma.league.create({
-      data: {
-        name,
-        // store startDate in a league metadata field if you have one; here we can use createdAt as reference
-        // You may want to add startDate column to Prisma model if you need it persisted (adjust schema).
-        // For now store startDate in a JSON metadata column or skip storing -> we store as createdAt override for demo:
-        createdAt: startDate ?? undefined,
-      },
+      data: { ...parsed.data, name: parsed.data.name! },
     });
 
-    // If teamLimit needs to be stored, add column to Prisma model. For now return with provided values.
-    const response = { id: created.id, name: created.name, startDate: startDate?.toISOString() ?? null, teamLimit };
-    return NextResponse.json(response);
+    return NextResponse.json(created);
   } catch (err: any) {
     console.error(err);
     return new NextResponse(err?.message ?? 'Server error', { status: 500 });
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { loadMemberDiscountPolicy } from '../../../../../packages/vendor/src/checkout';
+import { validateMemberDiscountPolicy } from '../../../../../packages/vendor/src/eligibility';
+import { authorize } from '../../../lib/auth';
+
+// GET: the Hive member discount rules and the vendors that opted out
+// PUT: update the rules { enabled?, discountPercentage?, seasonCapCents?, expiryGraceDays? }
+//   seasonCapCents: discounted spend per player per season (null = no cap)
+//   expiryGraceDays: days after the season end date the discount still applies
+export async function GET(req: Request) {
+  try {
+    const auth = await authorize(req, 'discounts:manage');
+    if ('response' in auth) return auth.response;
+
+    const [policy, optedOutVendors] = await Promise.all([
+      loadMemberDiscountPolicy(prisma),
+      prisma.vendor.findMany({
+        where: { memberDiscountOptOut: true },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+    return NextResponse.json({ ...policy, optedOutVendors });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const auth = await authorize(req, 'discounts:manage');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const invalid = validateMemberDiscountPolicy(body);
+    if (invalid) return new NextResponse(invalid, { status: 400 });
+
+    const data = {
+      enabled: body.enabled,
+      discountPercentage: body.discountPercentage,
+      seasonCapCents: body.seasonCapCents,
+      expiryGraceDays: body.expiryGraceDays,
+    };
+    await prisma.memberDiscountPolicy.upsert({
+      where: { id: 'default' },
+      create: { id: 'default', ...data },
+      update: data,
+    });
+    return NextResponse.json(await loadMemberDiscountPolicy(prisma));
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
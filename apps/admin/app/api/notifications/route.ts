@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { listNotifications, markNotificationsRead } from '../../../../../packages/notifications/src/notifications';
+import { getCaller, unauthorized } from '../../../lib/auth';
+
+// GET: the signed-in user's notifications, newest first
+// - unread only by default; ?all=true includes read ones
+// PATCH: mark read { ids? } — every unread notification when ids is omitted
+export async function GET(req: Request) {
+  try {
+    const caller = await getCaller(req);
+    if (!caller) return unauthorized();
+
+    const all = new URL(req.url).searchParams.get('all') === 'true';
+    return NextResponse.json(await listNotifications(prisma, caller.id, { all }));
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const caller = await getCaller(req);
+    if (!caller) return unauthorized();
+
+    const body = await req.json().catch(() => ({}));
+    const ids: unknown = body.ids;
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string'))) {
+      return new NextResponse('ids must be an array of notification ids', { status: 400 });
+    }
+    const marked = await markNotificationsRead(prisma, caller.id, ids as string[] | undefined);
+    return NextResponse.json({ marked });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { changeOrderStatus } from '../../../../../../packages/vendor/src/checkout';
+import { OrderStatus, OrderTransitionError, ORDER_TRANSITIONS } from '../../../../../../packages/vendor/src/orders';
+import { authorize } from '../../../../lib/auth';
+
+// PATCH: move an order { status } — PENDING → PAID → SHIPPED; PENDING → CANCELLED; PAID | SHIPPED → REFUNDED
+export async function PATCH(req: Request, { params }: { params: { orderId: string } }) {
+  try {
+    const auth = await authorize(req, 'orders:manage');
+    if ('response' in auth) return auth.response;
+
+    const { status } = await req.json();
+    const statuses = Object.keys(ORDER_TRANSITIONS);
+    if (!statuses.includes(status)) {
+      return new NextResponse(`status must be one of ${statuses.join(', ')}`, { status: 400 });
+    }
+
+    const order = await changeOrderStatus(params.orderId, status as OrderStatus);
+    if (!order) return new NextResponse('Order not found', { status: 404 });
+    return NextResponse.json(order);
+  } catch (err: any) {
+    if (err instanceof OrderTransitionError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { SafeguardingError, validateClearanceDocument } from '../../../../../../../packages/injuries/src/safeguarding';
+import { recordClearanceDocument } from '../../../../../../../packages/injuries/src/safeguardingRecords';
+import { authorize } from '../../../../../lib/auth';
+import { SAFEGUARDING_CASE_SELECT } from '../../../../../lib/safeguarding';
+
+/**
+ * POST { documentUrl, issuedBy } — record a clearance document received outside the clinic portal
+ * (e.g. from a clinic that is not on the portal)
+ * - documentUrl: https link to the signed clearance; issuedBy: the clinician who issued it
+ * - recorded once, and added to the safeguarding audit trail with the admin who recorded it
+ */
+export async function POST(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await authorize(req, 'safeguarding:manage');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const invalid = validateClearanceDocument(body);
+    if (invalid) return new NextResponse(invalid, { status: 400 });
+
+    const exists = await prisma.injury.findUnique({ where: { id: params.injuryId }, select: { id: true } });
+    if (!exists) return new NextResponse('Injury not found', { status: 404 });
+
+    const injury = await prisma.$transaction(async (tx) => {
+      await recordClearanceDocument(
+        tx,
+        params.injuryId,
+        { documentUrl: String(body.documentUrl).trim(), issuedBy: String(body.issuedBy).trim() },
+        auth.caller.id
+      );
+      return tx.injury.findUnique({ where: { id: params.injuryId }, select: SAFEGUARDING_CASE_SELECT });
+    });
+    return NextResponse.json(injury);
+  } catch (err: any) {
+    if (err instanceof SafeguardingError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
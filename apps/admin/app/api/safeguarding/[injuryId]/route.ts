@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { OVERRIDE_ACTIONS, OverrideAction, SafeguardingError } from '../../../../../../packages/injuries/src/safeguarding';
+import { OverrideInput, overrideSafeguarding } from '../../../../../../packages/injuries/src/safeguardingRecords';
+import { authorize } from '../../../../lib/auth';
+import { SAFEGUARDING_CASE_SELECT } from '../../../../lib/safeguarding';
+
+// GET: one safeguarding case with its audit trail (oldest first)
+export async function GET(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await authorize(req, 'safeguarding:manage');
+    if ('response' in auth) return auth.response;
+
+    const injury = await prisma.injury.findUnique({
+      where: { id: params.injuryId },
+      select: {
+        ...SAFEGUARDING_CASE_SELECT,
+        safeguardingEvents: {
+          orderBy: { createdAt: 'asc' },
+          select: {
+            action: true,
+            reason: true,
+            detail: true,
+            createdAt: true,
+            actor: { select: { id: true, name: true, role: true } },
+          },
+        },
+      },
+    });
+    if (!injury) return new NextResponse('Injury not found', { status: 404 });
+    return NextResponse.json(injury);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+/**
+ * POST { action, reason, standDownUntil? } — admin override of a head-injury safeguarding case
+ * - STAND_DOWN_OVERRIDDEN: move the stand-down end to standDownUntil
+ * - CLEARANCE_WAIVED: let the player be cleared without a clearance document
+ * - SAFEGUARDING_LIFTED: handle it as an ordinary injury (e.g. not a concussion)
+ * Every override needs a reason and is added to the audit trail with the admin who made it.
+ */
+export async function POST(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await authorize(req, 'safeguarding:manage');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const action = body.action as OverrideAction;
+    const reason = String(body.reason || '').trim();
+    if (!OVERRIDE_ACTIONS.includes(action)) {
+      return new NextResponse(`action must be one of ${OVERRIDE_ACTIONS.join(', ')}`, { status: 400 });
+    }
+    if (!reason) return new NextResponse('A reason is required for every override', { status: 400 });
+
+    let input: OverrideInput;
+    if (action === 'STAND_DOWN_OVERRIDDEN') {
+      const until = new Date(body.standDownUntil);
+      if (!body.standDownUntil || Number.isNaN(until.getTime())) {
+        return new NextResponse('standDownUntil must be a date', { status: 400 });
+      }
+      input = { action, standDownUntil: until, reason };
+    } else {
+      input = { action, reason };
+    }
+
+    const exists = await prisma.injury.findUnique({ where: { id: params.injuryId }, select: { id: true } });
+    if (!exists) return new NextResponse('Injury not found', { status: 404 });
+
+    const injury = await prisma.$transaction(async (tx) => {
+      await overrideSafeguarding(tx, params.injuryId, input, auth.caller.id);
+      return tx.injury.findUnique({ where: { id: params.injuryId }, select: SAFEGUARDING_CASE_SELECT });
+    });
+    return NextResponse.json(injury);
+  } catch (err: any) {
+    if (err instanceof SafeguardingError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
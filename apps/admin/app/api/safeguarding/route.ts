@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { authorize } from '../../../lib/auth';
+import { SAFEGUARDING_CASE_SELECT } from '../../../lib/safeguarding';
+
+// GET: head-injury safeguarding cases, newest first
+// - open ones (player not yet cleared to play) by default; ?all=true includes cleared and lifted cases
+export async function GET(req: Request) {
+  try {
+    const auth = await authorize(req, 'safeguarding:manage');
+    if ('response' in auth) return auth.response;
+
+    const all = new URL(req.url).searchParams.get('all') === 'true';
+    const cases = await prisma.injury.findMany({
+      where: all ? { safeguardingEvents: { some: {} } } : { safeguarding: true, clearedAt: null },
+      orderBy: { createdAt: 'desc' },
+      select: SAFEGUARDING_CASE_SELECT,
+    });
+    return NextResponse.json(cases);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
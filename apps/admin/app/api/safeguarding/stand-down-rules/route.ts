@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { StandDownRule, validateStandDownRules } from '../../../../../../packages/injuries/src/safeguarding';
+import { loadStandDownRules } from '../../../../../../packages/injuries/src/safeguardingRecords';
+import { authorize } from '../../../../lib/auth';
+
+// GET: minimum head-injury stand-down per age group, youngest first
+// - underAge null is the rule for everyone older; the built-in defaults apply until rules are saved
+// PUT: replace the rules { rules: [{ underAge, minDays }] }
+//   applies to head injuries reported from now on; existing stand-downs are changed with an override
+export async function GET(req: Request) {
+  try {
+    const auth = await authorize(req, 'safeguarding:manage');
+    if ('response' in auth) return auth.response;
+
+    return NextResponse.json(await loadStandDownRules(prisma));
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const auth = await authorize(req, 'safeguarding:manage');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const invalid = validateStandDownRules(body.rules);
+    if (invalid) return new NextResponse(invalid, { status: 400 });
+
+    const rules = (body.rules as StandDownRule[]).map((r) => ({ underAge: r.underAge, minDays: r.minDays }));
+    const saved = await prisma.$transaction(async (tx) => {
+      await tx.concussionStandDownRule.deleteMany({});
+      await tx.concussionStandDownRule.createMany({ data: rules });
+      return loadStandDownRules(tx);
+    });
+    return NextResponse.json(saved);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
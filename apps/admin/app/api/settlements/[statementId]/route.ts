@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { statementToCsv, statementToPdf } from '../../../../../../packages/vendor/src/statementExport';
+import { authorize } from '../../../../lib/auth';
+
+// GET: one settlement statement
+// - ?format=csv => CSV download
+// - ?format=pdf => PDF download
+export async function GET(req: Request, { params }: { params: { statementId: string } }) {
+  try {
+    const auth = await authorize(req, 'settlements:manage');
+    if ('response' in auth) return auth.response;
+
+    const statement = await prisma.settlementStatement.findUnique({
+      where: { id: params.statementId },
+      include: { vendor: { select: { id: true, name: true } } },
+    });
+    if (!statement) return new NextResponse('Statement not found', { status: 404 });
+
+    const format = new URL(req.url).searchParams.get('format');
+    const filename = `settlement-${statement.vendor.name.replace(/[^\w-]+/g, '_')}-${statement.periodStart
+      .toISOString()
+      .slice(0, 10)}`;
+
+    if (format === 'csv') {
+      return new NextResponse(statementToCsv(statement), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+    if (format === 'pdf') {
+      return new NextResponse(new Uint8Array(statementToPdf(statement)), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+        },
+      });
+    }
+    return NextResponse.json(statement);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
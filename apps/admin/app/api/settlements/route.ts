@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { LedgerError } from '../../../../../packages/vendor/src/ledger';
+import { runSettlement } from '../../../../../packages/vendor/src/settlement';
+import { authorize } from '../../../lib/auth';
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET: stored settlement statements, newest period first
+// - ?vendorId=... => only that vendor's statements
+// POST: run the settlement for a period { from: 'YYYY-MM-DD', to: 'YYYY-MM-DD' } (both days included)
+//   one statement per vendor with a balance or activity; re-running a period replaces its figures
+export async function GET(req: Request) {
+  try {
+    const auth = await authorize(req, 'settlements:manage');
+    if ('response' in auth) return auth.response;
+
+    const vendorId = new URL(req.url).searchParams.get('vendorId');
+    const statements = await prisma.settlementStatement.findMany({
+      where: vendorId ? { vendorId } : {},
+      include: { vendor: { select: { id: true, name: true } } },
+      orderBy: [{ periodStart: 'desc' }, { createdAt: 'desc' }],
+    });
+    return NextResponse.json(statements);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const auth = await authorize(req, 'settlements:manage');
+    if ('response' in auth) return auth.response;
+
+    const { from, to } = await req.json();
+    if (!DAY.test(from ?? '') || !DAY.test(to ?? '')) {
+      return new NextResponse('from and to must be dates (YYYY-MM-DD)', { status: 400 });
+    }
+
+    const start = new Date(`${from}T00:00:00Z`);
+    const end = new Date(new Date(`${to}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000);
+    const statements = await runSettlement(start, end);
+    return NextResponse.json(statements);
+  } catch (err: any) {
+    if (err instanceof LedgerError) return new NextResponse(err.message, { status: 400 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { authorize } from '../../../../../lib/auth';
+
+const MANAGER_SELECT = { id: true, name: true, email: true } as const;
+
+// PUT: set the team's manager { managerId } (null removes the manager)
+// - the user must have role MANAGER (also enforced by a DB trigger, sql/010)
+export async function PUT(req: Request, { params }: { params: { teamId: string } }) {
+  try {
+    const auth = await authorize(req, 'teams:assignManager');
+    if ('response' in auth) return auth.response;
+
+    const { managerId } = await req.json();
+    if (managerId === undefined) return new NextResponse('Missing managerId', { status: 400 });
+
+    const team = await prisma.team.findUnique({ where: { id: params.teamId }, select: { id: true } });
+    if (!team) return new NextResponse('Team not found', { status: 404 });
+
+    if (managerId !== null) {
+      const user = await prisma.user.findUnique({ where: { id: managerId }, select: { role: true } });
+      if (!user) return new NextResponse('User not found', { status: 404 });
+      if (user.role !== 'MANAGER') {
+        return new NextResponse(`Only users with role MANAGER can manage a team (this user is ${user.role})`, {
+          status: 400,
+        });
+      }
+    }
+
+    const updated = await prisma.team.update({
+      where: { id: params.teamId },
+      data: { managerId },
+      select: { id: true, name: true, manager: { select: MANAGER_SELECT } },
+    });
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    // Role changed between the check and the update
+    if (String(err?.message).includes('must reference a user with role MANAGER')) {
+      return new NextResponse('Only users with role MANAGER can manage a team', { status: 409 });
+    }
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
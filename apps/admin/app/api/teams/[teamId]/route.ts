@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { authorize, forbidden, ownsResource } from '../../../../lib/auth';
+
+// PATCH: update team settings { homeVenueId } (null clears the home venue)
+// - admins may edit any team; managers only the teams they manage
+export async function PATCH(req: Request, { params }: { params: { teamId: string } }) {
+  try {
+    const auth = await authorize(req, 'teams:update');
+    if ('response' in auth) return auth.response;
+
+    const existing = await prisma.team.findUnique({ where: { id: params.teamId }, select: { managerId: true } });
+    if (!existing) return new NextResponse('Team not found', { status: 404 });
+    if (!ownsResource(auth.caller, existing.managerId)) return forbidden('Managers can only edit their own team');
+
+    const body = await req.json();
+    if (body.homeVenueId === undefined) return new NextResponse('Missing homeVenueId', { status: 400 });
+
+    if (body.homeVenueId !== null) {
+      const venue = await prisma.venue.findUnique({ where: { id: body.homeVenueId }, select: { id: true } });
+      if (!venue) return new NextResponse('Venue not found', { status: 404 });
+    }
+
+    const team = await prisma.team.update({
+      where: { id: params.teamId },
+      data: { homeVenueId: body.homeVenueId },
+      select: { id: true, name: true, homeVenueId: true },
+    });
+    return NextResponse.json(team);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -1,21 +1,36 @@
-```ts
 import { NextResponse } from 'next/server';
-import { prisma } from '../../../../packages/db/src/prisma';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { authorize } from '../../../lib/auth';
 
 // GET teams:
 // - ?unassigned=true  => teams without a league
 // - ?leagueId=...     => teams in league
+// - ?unmanaged=true   => teams without a manager (any league)
+// every team includes managerId (null when nobody manages it)
 export async function GET(req: Request) {
   try {
+    const auth = await authorize(req, 'teams:read');
+    if ('response' in auth) return auth.response;
+
     const url = new URL(req.url);
     const unassigned = url.searchParams.get('unassigned');
     const leagueId = url.searchParams.get('leagueId');
+    const unmanaged = url.searchParams.get('unmanaged');
+
+    if (unmanaged === 'true') {
+      const teams = await prisma.team.findMany({
+        where: { managerId: null },
+        orderBy: { name: 'asc' },
+        select: { id: true, name: true, leagueId: true, managerId: true },
+      });
+      return NextResponse.json(teams);
+    }
 
     if (unassigned === 'true') {
       const teams = await prisma.team.findMany({
         where: { leagueId: null },
         orderBy: { name: 'asc' },
-        select: { id: true, name: true },
+        select: { id: true, name: true, managerId: true },
       });
       return NextResponse.json(teams);
     }
@@ -24,7 +39,7 @@ export async function GET(req: Request) {
       const teams = await prisma.team.findMany({
         where: { leagueId },
         orderBy: { name: 'asc' },
-        select: { id: true, name: true },
+        select: { id: true, name: true, managerId: true },
       });
       return NextResponse.json(teams);
     }
@@ -32,7 +47,7 @@ export async function GET(req: Request) {
     // otherwise return all teams
     const teams = await prisma.team.findMany({
       orderBy: { name: 'asc' },
-      select: { id: true, name: true, leagueId: true },
+      select: { id: true, name: true, leagueId: true, managerId: true },
     });
     return NextResponse.json(teams);
   } catch (err: any) {
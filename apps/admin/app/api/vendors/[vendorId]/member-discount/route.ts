@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { authorize } from '../../../../../lib/auth';
+
+// PUT: opt the vendor out of (or back into) the Hive member discount { optOut: boolean }
+//   applies to checkouts from now on; existing orders keep their prices
+export async function PUT(req: Request, { params }: { params: { vendorId: string } }) {
+  try {
+    const auth = await authorize(req, 'discounts:manage');
+    if ('response' in auth) return auth.response;
+
+    const { optOut } = await req.json();
+    if (typeof optOut !== 'boolean') return new NextResponse('optOut must be true or false', { status: 400 });
+
+    const vendor = await prisma.vendor.findUnique({ where: { id: params.vendorId }, select: { id: true } });
+    if (!vendor) return new NextResponse('Vendor not found', { status: 404 });
+
+    const updated = await prisma.vendor.update({
+      where: { id: params.vendorId },
+      data: { memberDiscountOptOut: optOut },
+      select: { id: true, name: true, memberDiscountOptOut: true },
+    });
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { LedgerError } from '../../../../../../../packages/vendor/src/ledger';
+import { recordPayout, vendorPayableBalance } from '../../../../../../../packages/vendor/src/settlement';
+import { authorize } from '../../../../../lib/auth';
+
+// GET: the vendor's payouts (newest first) and what they are currently owed
+// POST: record a payout { amountCents, reference? } (cannot exceed what is owed)
+export async function GET(req: Request, { params }: { params: { vendorId: string } }) {
+  try {
+    const auth = await authorize(req, 'settlements:manage');
+    if ('response' in auth) return auth.response;
+
+    const vendor = await prisma.vendor.findUnique({ where: { id: params.vendorId }, select: { id: true } });
+    if (!vendor) return new NextResponse('Vendor not found', { status: 404 });
+
+    const [payouts, owedCents] = await Promise.all([
+      prisma.vendorPayout.findMany({ where: { vendorId: params.vendorId }, orderBy: { paidAt: 'desc' } }),
+      vendorPayableBalance(prisma, params.vendorId),
+    ]);
+    return NextResponse.json({ owedCents, payouts });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: { params: { vendorId: string } }) {
+  try {
+    const auth = await authorize(req, 'settlements:manage');
+    if ('response' in auth) return auth.response;
+
+    const { amountCents, reference } = await req.json();
+    const vendor = await prisma.vendor.findUnique({ where: { id: params.vendorId }, select: { id: true } });
+    if (!vendor) return new NextResponse('Vendor not found', { status: 404 });
+
+    const payout = await recordPayout({
+      vendorId: params.vendorId,
+      amountCents,
+      reference: reference ? String(reference).trim() : null,
+      createdById: auth.caller.id,
+    });
+    return NextResponse.json(payout);
+  } catch (err: any) {
+    if (err instanceof LedgerError) return new NextResponse(err.message, { status: 400 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { authorize } from '../../../../../lib/auth';
+
+// POST: add a pitch to the venue { name }
+// DELETE: remove a pitch { pitchId } (refused while it has upcoming fixtures)
+export async function POST(req: Request, { params }: { params: { venueId: string } }) {
+  try {
+    const auth = await authorize(req, 'venues:write');
+    if ('response' in auth) return auth.response;
+
+    const { name } = await req.json();
+    const pitchName = String(name || '').trim();
+    if (!pitchName) return new NextResponse('Missing pitch name', { status: 400 });
+
+    const pitch = await prisma.pitch.create({
+      data: { venueId: params.venueId, name: pitchName },
+    });
+    return NextResponse.json(pitch);
+  } catch (err: any) {
+    if (err?.code === 'P2003') return new NextResponse('Venue not found', { status: 404 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: { params: { venueId: string } }) {
+  try {
+    const auth = await authorize(req, 'venues:write');
+    if ('response' in auth) return auth.response;
+
+    const { pitchId } = await req.json();
+    if (!pitchId) return new NextResponse('Missing pitchId', { status: 400 });
+
+    const upcoming = await prisma.fixture.count({
+      where: { pitchId, status: { in: ['SCHEDULED', 'POSTPONED'] }, scheduledAt: { gte: new Date() } },
+    });
+    if (upcoming > 0) {
+      return new NextResponse(`Pitch has ${upcoming} upcoming fixtures; regenerate or move them first`, {
+        status: 409,
+      });
+    }
+
+    await prisma.pitch.delete({ where: { id: pitchId, venueId: params.venueId } });
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    if (err?.code === 'P2025') return new NextResponse('Pitch not found at this venue', { status: 404 });
+    if (err?.code === 'P2003') {
+      return new NextResponse('Pitch is still used by fixtures; move them to another pitch first', { status: 409 });
+    }
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
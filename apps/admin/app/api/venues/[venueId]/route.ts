@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { parseVenueInput } from '../../../../lib/venues';
+import { authorize } from '../../../../lib/auth';
+
+// GET: venue with pitches and opening hours
+// PATCH: update venue fields; openingHours, when given, replaces the whole week
+// DELETE: remove venue (fixtures keep their label, lose the venue/pitch link)
+export async function GET(req: Request, { params }: { params: { venueId: string } }) {
+  const auth = await authorize(req, 'venues:read');
+  if ('response' in auth) return auth.response;
+
+  const venue = await prisma.venue.findUnique({
+    where: { id: params.venueId },
+    include: {
+      pitches: { orderBy: { name: 'asc' } },
+      openingHours: { orderBy: { weekday: 'asc' } },
+    },
+  });
+  if (!venue) return new NextResponse('Venue not found', { status: 404 });
+  return NextResponse.json(venue);
+}
+
+export async function PATCH(req: Request, { params }: { params: { venueId: string } }) {
+  try {
+    const auth = await authorize(req, 'venues:write');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const parsed = parseVenueInput(body, { partial: true });
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const { openingHours, ...fields } = parsed.data;
+    const existing = await prisma.venue.findUnique({ where: { id: params.venueId }, select: { id: true } });
+    if (!existing) return new NextResponse('Venue not found', { status: 404 });
+
+    const updated = await prisma.venue.update({
+      where: { id: params.venueId },
+      data: {
+        ...fields,
+        ...(openingHours ? { openingHours: { deleteMany: {}, create: openingHours } } : {}),
+      },
+      include: { pitches: true, openingHours: true },
+    });
+
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: { params: { venueId: string } }) {
+  try {
+    const auth = await authorize(req, 'venues:write');
+    if ('response' in auth) return auth.response;
+
+    await prisma.venue.delete({ where: { id: params.venueId } });
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    if (err?.code === 'P2025') return new NextResponse('Venue not found', { status: 404 });
+    if (err?.code === 'P2003') {
+      return new NextResponse('Venue is still used by fixtures or teams; move them to another venue first', {
+        status: 409,
+      });
+    }
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
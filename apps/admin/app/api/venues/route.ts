@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { parseVenueInput } from '../../../lib/venues';
+import { authorize } from '../../../lib/auth';
+
+// GET: list venues with pitches and opening hours
+// POST: create a venue { name, address?, slotMinutes?, maxMatchesPerSlot?, openingHours?, pitches?: string[] }
+export async function GET(req: Request) {
+  const auth = await authorize(req, 'venues:read');
+  if ('response' in auth) return auth.response;
+
+  const venues = await prisma.venue.findMany({
+    orderBy: { name: 'asc' },
+    include: {
+      pitches: { orderBy: { name: 'asc' } },
+      openingHours: { orderBy: { weekday: 'asc' } },
+    },
+  });
+  return NextResponse.json(venues);
+}
+
+export async function POST(req: Request) {
+  try {
+    const auth = await authorize(req, 'venues:write');
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    const parsed = parseVenueInput(body, { partial: false });
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const { openingHours, ...fields } = parsed.data;
+    const pitchNames: string[] = Array.isArray(body.pitches)
+      ? body.pitches.map((p: unknown) => String(p).trim()).filter(Boolean)
+      : [];
+
+    const created = await prisma.venue.create({
+      data: {
+        ...fields,
+        name: fields.name!,
+        pitches: { create: pitchNames.map((name) => ({ name })) },
+        openingHours: { create: openingHours ?? [] },
+      },
+      include: { pitches: true, openingHours: true },
+    });
+
+    return NextResponse.json(created);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
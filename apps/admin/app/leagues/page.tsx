@@ -5,12 +5,15 @@ import React, { useEffect, useState } from 'react';
 import LeagueForm from '../../components/LeagueForm';
 import TeamDragDrop from '../../components/TeamDragDrop';
 import FixtureGenerator from '../../components/FixtureGenerator';
+import StandingsTable from '../../components/StandingsTable';
 
 type League = {
   id: string;
   name: string;
   startDate: string | null;
+  endDate: string | null;
   teamLimit: number | null;
+  matchFormat: 'SINGLE_ROUND_ROBIN' | 'DOUBLE_ROUND_ROBIN';
 };
 
 export default function LeaguesAdminPage() {
@@ -69,7 +72,9 @@ export default function LeaguesAdminPage() {
                   >
                     <div className="font-medium">{l.name}</div>
                     <div className="text-xs text-gray-500">
-                      Start: {l.startDate ? new Date(l.startDate).toLocaleDateString() : '—'} • Limit: {l.teamLimit ?? '—'}
+                      Start: {l.startDate ? new Date(l.startDate).toLocaleDateString() : '—'} • End:{' '}
+                      {l.endDate ? new Date(l.endDate).toLocaleDateString() : '—'} • Limit: {l.teamLimit ?? '—'} •{' '}
+                      {l.matchFormat === 'DOUBLE_ROUND_ROBIN' ? 'Home & away' : 'Single'}
                     </div>
                   </button>
                 </li>
@@ -89,13 +94,24 @@ export default function LeaguesAdminPage() {
             )}
           </div>
 
-          <div className="bg-white p-4 rounded-md shadow-sm">
-            <h3 className="font-medium mb-2">Generate Fixtures (Round-Robin)</h3>
-            {selectedLeagueId ? (
-              <FixtureGenerator leagueId={selectedLeagueId} />
-            ) : (
-              <div className="text-sm text-gray-500">Select a league to generate fixtures for.</div>
-            )}
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            <div className="bg-white p-4 rounded-md shadow-sm">
+              <h3 className="font-medium mb-2">Generate Fixtures (Round-Robin)</h3>
+              {selectedLeagueId ? (
+                <FixtureGenerator leagueId={selectedLeagueId} />
+              ) : (
+                <div className="text-sm text-gray-500">Select a league to generate fixtures for.</div>
+              )}
+            </div>
+
+            <div className="bg-white p-4 rounded-md shadow-sm">
+              <h3 className="font-medium mb-2">Standings</h3>
+              {selectedLeagueId ? (
+                <StandingsTable leagueId={selectedLeagueId} />
+              ) : (
+                <div className="text-sm text-gray-500">Select a league to see its table.</div>
+              )}
+            </div>
           </div>
         </main>
       </section>
@@ -2,6 +2,13 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_SCHEDULE_OPTIONS,
+  generateSchedule,
+  nextMatchDay,
+  ScheduleFormat,
+  ScheduleOptions,
+} from '../../../packages/scheduling/src/schedule';
 
 type Team = {
   id: string;
@@ -10,27 +17,55 @@ type Team = {
 
 type FixturePreview = {
   round: number;
+  leg: 1 | 2;
   home: Team;
   away: Team;
   scheduledAt: string;
 };
 
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const defaultOptions = (): ScheduleOptions => {
+  const utcOffsetMinutes = -new Date().getTimezoneOffset();
+  return {
+    ...DEFAULT_SCHEDULE_OPTIONS,
+    utcOffsetMinutes,
+    startDate: nextMatchDay(new Date(), DEFAULT_SCHEDULE_OPTIONS.weekday, utcOffsetMinutes),
+    blackoutDates: [],
+    seed: '',
+  };
+};
+
 type Props = {
   leagueId: string;
 };
 
+type GenerateMode = 'dryRun' | 'create' | 'regenerate';
+
+type GenerateResult = {
+  mode: GenerateMode;
+  dryRun: boolean;
+  created: number;
+  kept: number;
+  deleted: number;
+  fixtures: unknown[];
+  unplaced: Array<{ homeTeamId: string; awayTeamId: string; scheduledAt: string; reason: string }>;
+};
+
 /**
  * FixtureGenerator
  *
  * - Fetches teams for the league
- * - Displays a preview of a round-robin schedule (circle method)
- * - Calls POST /api/fixtures/generate to persist generated fixtures (weekly spacing by default)
+ * - Displays a preview of the schedule from the shared scheduling engine
+ * - Calls POST /api/fixtures/generate with the same options, so the persisted fixtures match the preview
  */
 export default function FixtureGenerator({ leagueId }: Props) {
   const [teams, setTeams] = useState<Team[]>([]);
+  const [options, setOptions] = useState<ScheduleOptions>(defaultOptions);
   const [preview, setPreview] = useState<FixturePreview[]>([]);
   const [loading, setLoading] = useState(false);
   const [generating, setGenerating] = useState(false);
+  const [lastResult, setLastResult] = useState<GenerateResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const fetchTeams = async () => {
@@ -48,34 +83,63 @@ export default function FixtureGenerator({ leagueId }: Props) {
     }
   };
 
+  // Season settings stored on the league are the starting point for the options
+  const fetchLeagueSettings = async () => {
+    try {
+      const res = await fetch(`/api/leagues/${encodeURIComponent(leagueId)}`, { cache: 'no-store' });
+      if (!res.ok) return;
+      const league = await res.json();
+      setOptions((prev) => ({
+        ...prev,
+        startDate: league.startDate ? String(league.startDate).slice(0, 10) : defaultOptions().startDate,
+        format: league.matchFormat === 'DOUBLE_ROUND_ROBIN' ? 'DOUBLE' : 'SINGLE',
+      }));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
   useEffect(() => {
     fetchTeams();
+    fetchLeagueSettings();
   }, [leagueId]);
 
   useEffect(() => {
-    const p = generateRoundRobinPreview(teams);
-    setPreview(p);
-  }, [teams]);
+    try {
+      setPreview(generateSchedule(teams, scheduleOptions(options)));
+      setError(null);
+    } catch (err: any) {
+      setPreview([]);
+      setError(err?.message ?? 'Invalid schedule options');
+    }
+  }, [teams, options]);
+
+  const teamName = (id: string) => teams.find((t) => t.id === id)?.name ?? id;
+
+  const updateOption = <K extends keyof ScheduleOptions>(key: K, value: ScheduleOptions[K]) =>
+    setOptions((prev) => ({ ...prev, [key]: value }));
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (mode: GenerateMode) => {
     if (teams.length < 2) {
       setError('At least 2 teams required to generate fixtures.');
       return;
     }
+    if (mode === 'regenerate' && !confirm('Replace all SCHEDULED fixtures? Completed fixtures and scores are kept.')) {
+      return;
+    }
     setGenerating(true);
     setError(null);
     try {
       const res = await fetch('/api/fixtures/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ leagueId }),
+        body: JSON.stringify({ leagueId, mode, options: scheduleOptions(options) }),
       });
       if (!res.ok) {
         throw new Error(await res.text());
       }
-      const data = await res.json();
-      // data could be fixtures created
-      alert(`Generated ${data?.length ?? 'some'} fixtures`);
+      const data: GenerateResult = await res.json();
+      setLastResult(data);
       // refresh teams/preview if needed
       fetchTeams();
     } catch (err: any) {
@@ -102,6 +166,95 @@ export default function FixtureGenerator({ leagueId }: Props) {
         </ul>
       </div>
 
+      <div className="mb-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+        <label className="text-sm">
+          <span className="block text-gray-700">Format</span>
+          <select
+            value={options.format}
+            onChange={(e) => updateOption('format', e.target.value as ScheduleFormat)}
+            className="mt-1 block w-full border-gray-300 rounded-md p-2"
+          >
+            <option value="SINGLE">Single round-robin</option>
+            <option value="DOUBLE">Double (home &amp; away)</option>
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-700">Start Date</span>
+          <input
+            type="date"
+            value={options.startDate}
+            onChange={(e) => updateOption('startDate', e.target.value)}
+            className="mt-1 block w-full border-gray-300 rounded-md p-2"
+          />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-700">Match Day</span>
+          <select
+            value={options.weekday}
+            onChange={(e) => updateOption('weekday', Number(e.target.value))}
+            className="mt-1 block w-full border-gray-300 rounded-md p-2"
+          >
+            {WEEKDAYS.map((d, i) => (
+              <option key={d} value={i}>
+                {d}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-700">Kick-off</span>
+          <input
+            type="time"
+            value={options.kickoffTime}
+            onChange={(e) => updateOption('kickoffTime', e.target.value)}
+            className="mt-1 block w-full border-gray-300 rounded-md p-2"
+          />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-700">Days Between Rounds</span>
+          <input
+            type="number"
+            min={1}
+            value={options.roundIntervalDays}
+            onChange={(e) => updateOption('roundIntervalDays', Number(e.target.value))}
+            className="mt-1 block w-full border-gray-300 rounded-md p-2"
+          />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-700">Max Consecutive Home/Away</span>
+          <input
+            type="number"
+            min={1}
+            value={options.maxConsecutive}
+            onChange={(e) => updateOption('maxConsecutive', Number(e.target.value))}
+            className="mt-1 block w-full border-gray-300 rounded-md p-2"
+          />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-700">Blackout Dates</span>
+          <input
+            value={(options.blackoutDates ?? []).join(', ')}
+            onChange={(e) =>
+              updateOption(
+                'blackoutDates',
+                e.target.value.split(',').map((d) => d.trim()).filter(Boolean)
+              )
+            }
+            placeholder="YYYY-MM-DD, YYYY-MM-DD"
+            className="mt-1 block w-full border-gray-300 rounded-md p-2"
+          />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-700">Seed</span>
+          <input
+            value={options.seed ?? ''}
+            onChange={(e) => updateOption('seed', e.target.value)}
+            placeholder="optional"
+            className="mt-1 block w-full border-gray-300 rounded-md p-2"
+          />
+        </label>
+      </div>
+
       <div className="mb-3">
         <h4 className="font-medium">Preview Schedule</h4>
         {preview.length === 0 ? (
@@ -110,7 +263,10 @@ export default function FixtureGenerator({ leagueId }: Props) {
           <div className="space-y-2 max-h-64 overflow-auto">
             {preview.map((f, i) => (
               <div key={i} className="p-2 border rounded bg-gray-50">
-                <div className="text-sm text-gray-500">Round {f.round}</div>
+                <div className="text-sm text-gray-500">
+                  Round {f.round}
+                  {options.format === 'DOUBLE' ? ` • Leg ${f.leg}` : ''}
+                </div>
                 <div className="font-medium">
                   {f.home.name} vs {f.away.name}
                 </div>
@@ -121,67 +277,57 @@ export default function FixtureGenerator({ leagueId }: Props) {
         )}
       </div>
 
-      <div>
+      {lastResult && (
+        <div className="mb-3 text-sm text-gray-700">
+          {lastResult.dryRun
+            ? `Dry run: would create ${lastResult.created} fixtures • keep ${lastResult.kept} • delete ${lastResult.deleted}`
+            : `Created ${lastResult.created} fixtures • kept ${lastResult.kept} • deleted ${lastResult.deleted}`}
+          {lastResult.unplaced.length > 0 && (
+            <div className="mt-2 text-amber-700">
+              <div className="font-medium">{lastResult.unplaced.length} fixtures without a venue:</div>
+              <ul className="mt-1 space-y-1">
+                {lastResult.unplaced.map((u, i) => (
+                  <li key={i}>
+                    {teamName(u.homeTeamId)} vs {teamName(u.awayTeamId)} ({new Date(u.scheduledAt).toLocaleString()}) —{' '}
+                    {u.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => handleGenerate('dryRun')}
+          disabled={generating || teams.length < 2}
+          className="px-4 py-2 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Dry Run
+        </button>
         <button
-          onClick={handleGenerate}
+          onClick={() => handleGenerate('create')}
           disabled={generating || teams.length < 2}
           className="px-4 py-2 rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
         >
           {generating ? 'Generating…' : 'Generate & Persist Fixtures'}
         </button>
+        <button
+          onClick={() => handleGenerate('regenerate')}
+          disabled={generating || teams.length < 2}
+          className="px-4 py-2 rounded-md text-white bg-amber-600 hover:bg-amber-700 disabled:opacity-50"
+        >
+          Regenerate Scheduled
+        </button>
       </div>
     </div>
   );
 }
 
 /**
- * Round-robin (circle method) preview generator.
- * If odd number of teams, a dummy BYE team is added.
- * Schedules each round at weekly intervals starting next weekend.
+ * Options as sent to the API: an empty seed means "keep team order".
  */
-function generateRoundRobinPreview(teams: Team[]) {
-  if (teams.length < 2) return [];
-
-  const items = [...teams];
-  const isOdd = items.length % 2 === 1;
-  if (isOdd) {
-    items.push({ id: 'BYE', name: 'BYE' });
-  }
-
-  const n = items.length;
-  const rounds = n - 1;
-  const half = n / 2;
-
-  // start date: next Saturday at 10:00 local time
-  const now = new Date();
-  const daysUntilSat = ((6 - now.getDay()) + 7) % 7 || 7; // ensure next weekend
-  const start = new Date(now);
-  start.setDate(now.getDate() + daysUntilSat);
-  start.setHours(10, 0, 0, 0);
-
-  const schedule: { round: number; home: Team; away: Team; scheduledAt: string }[] = [];
-
-  let rotation = items.slice(); // mutable
-
-  for (let round = 0; round < rounds; round++) {
-    const roundDate = new Date(start);
-    roundDate.setDate(start.getDate() + round * 7); // weekly
-
-    for (let i = 0; i < half; i++) {
-      const t1 = rotation[i];
-      const t2 = rotation[n - 1 - i];
-      if (t1.id === 'BYE' || t2.id === 'BYE') continue; // skip bye matches
-      schedule.push({
-        round: round + 1,
-        home: t1,
-        away: t2,
-        scheduledAt: roundDate.toISOString(),
-      });
-    }
-
-    // rotate (fix first element)
-    rotation = [rotation[0], ...rotation.slice(1).slice(-1), ...rotation.slice(1, -1)];
-  }
-
-  return schedule;
-}
\ No newline at end of file
+function scheduleOptions(options: ScheduleOptions): ScheduleOptions {
+  return { ...options, seed: options.seed === '' ? undefined : options.seed };
+}
@@ -3,13 +3,24 @@
 
 import React, { useState } from 'react';
 
+type MatchFormat = 'SINGLE_ROUND_ROBIN' | 'DOUBLE_ROUND_ROBIN';
+
 type Props = {
-  onCreated?: (league: { id: string; name: string; startDate: string | null; teamLimit: number | null }) => void;
+  onCreated?: (league: {
+    id: string;
+    name: string;
+    startDate: string | null;
+    endDate: string | null;
+    teamLimit: number | null;
+    matchFormat: MatchFormat;
+  }) => void;
 };
 
 export default function LeagueForm({ onCreated }: Props) {
   const [name, setName] = useState('');
   const [startDate, setStartDate] = useState<string>('');
+  const [endDate, setEndDate] = useState<string>('');
+  const [matchFormat, setMatchFormat] = useState<MatchFormat>('SINGLE_ROUND_ROBIN');
   const [teamLimit, setTeamLimit] = useState<number | ''>('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -17,6 +28,8 @@ export default function LeagueForm({ onCreated }: Props) {
   const reset = () => {
     setName('');
     setStartDate('');
+    setEndDate('');
+    setMatchFormat('SINGLE_ROUND_ROBIN');
     setTeamLimit('');
     setError(null);
   };
@@ -29,6 +42,10 @@ export default function LeagueForm({ onCreated }: Props) {
       setError('League name is required.');
       return;
     }
+    if (startDate && endDate && endDate <= startDate) {
+      setError('End date must be after the start date.');
+      return;
+    }
 
     setLoading(true);
 
@@ -36,7 +53,9 @@ export default function LeagueForm({ onCreated }: Props) {
       const payload = {
         name: name.trim(),
         startDate: startDate ? new Date(startDate).toISOString() : null,
+        endDate: endDate ? new Date(endDate).toISOString() : null,
         teamLimit: teamLimit === '' ? null : Number(teamLimit),
+        matchFormat,
       };
 
       const res = await fetch('/api/leagues', {
@@ -83,6 +102,26 @@ export default function LeagueForm({ onCreated }: Props) {
             className="mt-1 block w-full border-gray-300 rounded-md p-2"
           />
         </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">End Date</label>
+          <input
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            type="date"
+            className="mt-1 block w-full border-gray-300 rounded-md p-2"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Format</label>
+          <select
+            value={matchFormat}
+            onChange={(e) => setMatchFormat(e.target.value as MatchFormat)}
+            className="mt-1 block w-full border-gray-300 rounded-md p-2"
+          >
+            <option value="SINGLE_ROUND_ROBIN">Single round-robin</option>
+            <option value="DOUBLE_ROUND_ROBIN">Double round-robin (home &amp; away)</option>
+          </select>
+        </div>
         <div>
           <label className="block text-sm font-medium text-gray-700">Team Limit</label>
           <input
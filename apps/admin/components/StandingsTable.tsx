@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+type StandingsRow = {
+  position: number;
+  teamId: string;
+  teamName: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+};
+
+type Season = {
+  id: string;
+  name: string;
+  status: 'PLANNED' | 'ACTIVE' | 'COMPLETED';
+};
+
+type Props = {
+  leagueId: string;
+};
+
+/**
+ * StandingsTable
+ *
+ * - Fetches GET /api/leagues/[leagueId]/standings (current season unless another is picked)
+ * - Renders the league table (rules and tie-breakers are applied server-side)
+ */
+export default function StandingsTable({ leagueId }: Props) {
+  const [rows, setRows] = useState<StandingsRow[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [seasonId, setSeasonId] = useState<string>('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStandings = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = seasonId ? `?seasonId=${encodeURIComponent(seasonId)}` : '';
+      const res = await fetch(`/api/leagues/${encodeURIComponent(leagueId)}/standings${query}`, { cache: 'no-store' });
+      if (!res.ok) throw new Error(await res.text());
+      const data = await res.json();
+      setRows(Array.isArray(data) ? data : []);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message ?? 'Failed to load standings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSeasons = async () => {
+    try {
+      const res = await fetch(`/api/leagues/${encodeURIComponent(leagueId)}/seasons`, { cache: 'no-store' });
+      const data = await res.json();
+      setSeasons(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  useEffect(() => {
+    setSeasonId('');
+    fetchSeasons();
+  }, [leagueId]);
+
+  useEffect(() => {
+    fetchStandings();
+  }, [leagueId, seasonId]);
+
+  return (
+    <div>
+      {seasons.length > 1 && (
+        <select
+          value={seasonId}
+          onChange={(e) => setSeasonId(e.target.value)}
+          className="mb-2 border-gray-300 rounded-md p-1 text-sm"
+          aria-label="Season"
+        >
+          <option value="">Current season</option>
+          {seasons.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name} {s.status === 'COMPLETED' ? '(completed)' : ''}
+            </option>
+          ))}
+        </select>
+      )}
+      {loading && <div className="text-sm text-gray-500">Loading standings…</div>}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {!loading && rows.length === 0 ? (
+        <div className="text-sm text-gray-500">No teams in this league yet.</div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-1 pr-2">#</th>
+              <th className="py-1 pr-2">Team</th>
+              <th className="py-1 px-1 text-right" title="Played">P</th>
+              <th className="py-1 px-1 text-right" title="Won">W</th>
+              <th className="py-1 px-1 text-right" title="Drawn">D</th>
+              <th className="py-1 px-1 text-right" title="Lost">L</th>
+              <th className="py-1 px-1 text-right" title="Goals for">GF</th>
+              <th className="py-1 px-1 text-right" title="Goals against">GA</th>
+              <th className="py-1 px-1 text-right" title="Goal difference">GD</th>
+              <th className="py-1 pl-1 text-right" title="Points">Pts</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.teamId} className="border-b last:border-0">
+                <td className="py-1 pr-2 text-gray-500">{r.position}</td>
+                <td className="py-1 pr-2 font-medium">{r.teamName}</td>
+                <td className="py-1 px-1 text-right">{r.played}</td>
+                <td className="py-1 px-1 text-right">{r.won}</td>
+                <td className="py-1 px-1 text-right">{r.drawn}</td>
+                <td className="py-1 px-1 text-right">{r.lost}</td>
+                <td className="py-1 px-1 text-right">{r.goalsFor}</td>
+                <td className="py-1 px-1 text-right">{r.goalsAgainst}</td>
+                <td className="py-1 px-1 text-right">
+                  {r.goalDifference > 0 ? `+${r.goalDifference}` : r.goalDifference}
+                </td>
+                <td className="py-1 pl-1 text-right font-semibold">{r.points}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
 type Team = {
   id: string;
   name: string;
+  managerId?: string | null;
 };
 
 type Props = {
@@ -19,12 +20,22 @@ type Props = {
   onUpdated?: () => void;
 };
 
+type MoveError = {
+  team: Team;
+  direction: 'assign' | 'unassign';
+  index: number;
+  message: string;
+  canForce: boolean;
+};
+
 /**
  * TeamDragDrop
  *
  * - Fetches unassigned teams and teams assigned to the provided leagueId.
  * - Allows dragging a team from "Unassigned Teams" to "League Teams" (assigns to league).
  * - Allows dragging a team out back to "Unassigned" (removes league assignment).
+ * - Moves are optimistic; refusals (league full, scheduled fixtures) roll the move back and show inline.
+ * - Teams without a manager are flagged.
  *
  * Note: react-beautiful-dnd must be installed:
  *  pnpm add react-beautiful-dnd
@@ -34,6 +45,7 @@ export default function TeamDragDrop({ leagueId, onUpdated }: Props) {
   const [leagueTeams, setLeagueTeams] = useState<Team[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [moveError, setMoveError] = useState<MoveError | null>(null);
 
   const fetchLists = async () => {
     setLoading(true);
@@ -80,49 +92,66 @@ export default function TeamDragDrop({ leagueId, onUpdated }: Props) {
     }
 
     // Moving between lists: assign or unassign
+    const direction = source.droppableId === 'unassigned' ? 'assign' : 'unassign';
+    await moveTeam(draggableId, direction, destination.index);
+  };
+
+  /**
+   * Optimistically move the team, then call the API; on refusal the lists are
+   * restored and the reason is shown inline (with "Move anyway" when the API allows force).
+   */
+  const moveTeam = async (teamId: string, direction: 'assign' | 'unassign', index: number, force = false) => {
+    const from = direction === 'assign' ? unassigned : leagueTeams;
+    const moved = from.find((t) => t.id === teamId);
+    if (!moved) return;
+
+    const snapshot = { unassigned, leagueTeams };
+    const insert = (prev: Team[]) => {
+      const copy = prev.filter((t) => t.id !== teamId);
+      copy.splice(Math.min(index, copy.length), 0, moved);
+      return copy;
+    };
+    if (direction === 'assign') {
+      setUnassigned((prev) => prev.filter((t) => t.id !== teamId));
+      setLeagueTeams(insert);
+    } else {
+      setLeagueTeams((prev) => prev.filter((t) => t.id !== teamId));
+      setUnassigned(insert);
+    }
+    setError(null);
+    setMoveError(null);
+
     try {
-      if (source.droppableId === 'unassigned' && destination.droppableId === 'league') {
-        // assign team to league
-        const res = await fetch(`/api/leagues/${leagueId}/teams`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ teamId: draggableId }),
-        });
-        if (!res.ok) throw new Error(await res.text());
-        // optimistic update
-        const moved = unassigned.find((t) => t.id === draggableId);
-        if (moved) {
-          setUnassigned((prev) => prev.filter((t) => t.id !== draggableId));
-          setLeagueTeams((prev) => {
-            const copy = Array.from(prev);
-            copy.splice(destination.index, 0, moved);
-            return copy;
-          });
+      const res = await fetch(`/api/leagues/${leagueId}/teams`, {
+        method: direction === 'assign' ? 'POST' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ teamId, force }),
+      });
+      if (!res.ok) {
+        const text = await res.text();
+        let refusal: { error?: string; canForce?: boolean } = {};
+        try {
+          refusal = JSON.parse(text);
+        } catch {
+          refusal = { error: text };
         }
-      } else if (source.droppableId === 'league' && destination.droppableId === 'unassigned') {
-        // unassign team from league
-        const res = await fetch(`/api/leagues/${leagueId}/teams`, {
-          method: 'DELETE',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ teamId: draggableId }),
+        setUnassigned(snapshot.unassigned);
+        setLeagueTeams(snapshot.leagueTeams);
+        setMoveError({
+          team: moved,
+          direction,
+          index,
+          message: refusal.error || 'Failed to move team',
+          canForce: !!refusal.canForce,
         });
-        if (!res.ok) throw new Error(await res.text());
-        const moved = leagueTeams.find((t) => t.id === draggableId);
-        if (moved) {
-          setLeagueTeams((prev) => prev.filter((t) => t.id !== draggableId));
-          setUnassigned((prev) => {
-            const copy = Array.from(prev);
-            copy.splice(destination.index, 0, moved);
-            return copy;
-          });
-        }
+        return;
       }
       onUpdated?.();
     } catch (err: any) {
       console.error('Failed to move team', err);
-      setError(err?.message ?? 'Failed to move team');
-      // refresh lists
-      fetchLists();
+      setUnassigned(snapshot.unassigned);
+      setLeagueTeams(snapshot.leagueTeams);
+      setMoveError({ team: moved, direction, index, message: err?.message ?? 'Failed to move team', canForce: false });
     }
   };
 
@@ -130,6 +159,25 @@ export default function TeamDragDrop({ leagueId, onUpdated }: Props) {
     <div className="space-y-3">
       {loading && <div className="text-sm text-gray-500">Loading teams…</div>}
       {error && <div className="text-sm text-red-600">{error}</div>}
+      {moveError && (
+        <div className="text-sm text-red-600 flex items-center gap-3">
+          <span>
+            Could not {moveError.direction === 'assign' ? 'add' : 'remove'} {moveError.team.name}: {moveError.message}
+          </span>
+          {moveError.canForce && (
+            <button
+              type="button"
+              onClick={() => moveTeam(moveError.team.id, moveError.direction, moveError.index, true)}
+              className="underline hover:no-underline"
+            >
+              Move anyway
+            </button>
+          )}
+          <button type="button" onClick={() => setMoveError(null)} className="text-gray-500 hover:underline">
+            Dismiss
+          </button>
+        </div>
+      )}
 
       <DragDropContext onDragEnd={onDragEnd}>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -150,7 +198,10 @@ export default function TeamDragDrop({ leagueId, onUpdated }: Props) {
                         {...prov.dragHandleProps}
                         className={`p-2 mb-2 bg-white rounded shadow-sm flex items-center justify-between ${snap.isDragging ? 'opacity-90' : ''}`}
                       >
-                        <div>{team.name}</div>
+                        <div>
+                          {team.name}
+                          {!team.managerId && <span className="ml-2 text-xs text-amber-700">no manager</span>}
+                        </div>
                         <div className="text-xs text-gray-400">drag</div>
                       </div>
                     )}
@@ -179,7 +230,10 @@ export default function TeamDragDrop({ leagueId, onUpdated }: Props) {
                         {...prov.dragHandleProps}
                         className={`p-2 mb-2 bg-gray-50 rounded flex items-center justify-between ${snap.isDragging ? 'opacity-90' : ''}`}
                       >
-                        <div>{team.name}</div>
+                        <div>
+                          {team.name}
+                          {!team.managerId && <span className="ml-2 text-xs text-amber-700">no manager</span>}
+                        </div>
                         <div className="text-xs text-gray-400">drag</div>
                       </div>
                     )}
@@ -0,0 +1,79 @@
+// Caller resolution and the permission matrix shared by the admin API routes.
+import { NextResponse } from 'next/server';
+import type { Role } from '@prisma/client';
+import { getSessionUser, SessionUser } from '../../../packages/auth/src/server';
+
+export type Caller = SessionUser;
+
+const ANY_ROLE: Role[] = ['ADMIN', 'MANAGER', 'VENDOR', 'PLAYER', 'CLINIC_STAFF'];
+
+// Who may do what. Reads need a signed-in user; MANAGER edits are further limited to
+// their own teams by the route (see ownsResource).
+export const PERMISSIONS = {
+  'leagues:read': ANY_ROLE,
+  'leagues:write': ['ADMIN'],
+  'leagues:assignTeams': ['ADMIN'],
+  'seasons:write': ['ADMIN'],
+  'fixtures:read': ANY_ROLE,
+  'fixtures:generate': ['ADMIN'],
+  'fixtures:resolve': ['ADMIN'],
+  'teams:read': ANY_ROLE,
+  'teams:update': ['ADMIN', 'MANAGER'],
+  'teams:assignManager': ['ADMIN'],
+  'venues:read': ANY_ROLE,
+  'venues:write': ['ADMIN'],
+  'users:invite': ['ADMIN'],
+  'orders:manage': ['ADMIN'],
+  'commission:manage': ['ADMIN'],
+  'discounts:manage': ['ADMIN'],
+  'settlements:manage': ['ADMIN'],
+  'safeguarding:manage': ['ADMIN'],
+  'injuries:clear': ['ADMIN'],
+  'clinics:manage': ['ADMIN'],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+/**
+ * Resolve the signed-in user from the Supabase session (see packages/auth/src/server.ts).
+ * Returns null when there is no valid session.
+ */
+export async function getCaller(req: Request): Promise<Caller | null> {
+  return getSessionUser(req);
+}
+
+export function unauthorized(message = 'Sign in required') {
+  return NextResponse.json({ error: message, code: 'UNAUTHORIZED' }, { status: 401 });
+}
+
+export function forbidden(message = 'You do not have permission to do this') {
+  return NextResponse.json({ error: message, code: 'FORBIDDEN' }, { status: 403 });
+}
+
+/**
+ * Check the caller against the permission matrix.
+ *
+ * Usage:
+ *  const auth = await authorize(req, 'leagues:write');
+ *  if ('response' in auth) return auth.response;
+ */
+export async function authorize(
+  req: Request,
+  permission: Permission
+): Promise<{ caller: Caller } | { response: NextResponse }> {
+  const caller = await getCaller(req);
+  if (!caller) return { response: unauthorized() };
+  const allowed: Role[] = PERMISSIONS[permission];
+  if (!allowed.includes(caller.role)) {
+    return { response: forbidden(`${permission} requires role ${allowed.join(' or ')}`) };
+  }
+  return { caller };
+}
+
+/**
+ * Admins may act on anything; everyone else only on resources they own
+ * (e.g. a MANAGER on teams where managerId is their id).
+ */
+export function ownsResource(caller: Caller, ownerId: string | null | undefined) {
+  return caller.role === 'ADMIN' || (!!ownerId && ownerId === caller.id);
+}
@@ -0,0 +1,39 @@
+// Request-body parsing shared by the clinic routes.
+
+export type ClinicInput = {
+  name?: string;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  active?: boolean;
+};
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const optionalText = (value: unknown) => (value ? String(value).trim() || null : null);
+
+/**
+ * Validate a clinic create/update body. Returns an error message instead of throwing
+ * so routes can answer 400 directly.
+ */
+export function parseClinicInput(body: any, { partial }: { partial: boolean }): { data: ClinicInput } | { error: string } {
+  const data: ClinicInput = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = String(body.name || '').trim();
+    if (!name) return { error: 'Missing clinic name' };
+    data.name = name;
+  }
+  if (body.email !== undefined) {
+    const email = optionalText(body.email);
+    if (email && !EMAIL.test(email)) return { error: 'email must be an email address' };
+    data.email = email;
+  }
+  if (body.phone !== undefined) data.phone = optionalText(body.phone);
+  if (body.address !== undefined) data.address = optionalText(body.address);
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') return { error: 'active must be true or false' };
+    data.active = body.active;
+  }
+  return { data };
+}
@@ -0,0 +1,89 @@
+// Request-body parsing shared by the league routes.
+
+export type MatchFormat = 'SINGLE_ROUND_ROBIN' | 'DOUBLE_ROUND_ROBIN';
+export type TieBreaker = 'HEAD_TO_HEAD' | 'GOAL_DIFFERENCE' | 'GOALS_FOR';
+
+export type LeagueSettingsInput = {
+  name?: string;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  teamLimit?: number | null;
+  matchFormat?: MatchFormat;
+  pointsForWin?: number;
+  pointsForDraw?: number;
+  pointsForLoss?: number;
+  tieBreakers?: TieBreaker[];
+};
+
+const MATCH_FORMATS: MatchFormat[] = ['SINGLE_ROUND_ROBIN', 'DOUBLE_ROUND_ROBIN'];
+const TIE_BREAKERS: TieBreaker[] = ['HEAD_TO_HEAD', 'GOAL_DIFFERENCE', 'GOALS_FOR'];
+
+/**
+ * Validate a league create/update body. `current` holds the stored values so cross-field
+ * rules (end after start, win ≥ draw ≥ loss) are checked against the merged result.
+ */
+export function parseLeagueSettings(
+  body: any,
+  { partial, current }: { partial: boolean; current?: LeagueSettingsInput }
+): { data: LeagueSettingsInput } | { error: string } {
+  const data: LeagueSettingsInput = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = String(body.name || '').trim();
+    if (!name) return { error: 'Missing league name' };
+    data.name = name;
+  }
+
+  for (const key of ['startDate', 'endDate'] as const) {
+    if (body[key] === undefined) continue;
+    const value = body[key] ? new Date(body[key]) : null;
+    if (value && Number.isNaN(value.getTime())) return { error: `Invalid ${key}` };
+    data[key] = value;
+  }
+
+  if (body.teamLimit !== undefined) {
+    const teamLimit = body.teamLimit == null || body.teamLimit === '' ? null : Number(body.teamLimit);
+    if (teamLimit !== null && (!Number.isInteger(teamLimit) || teamLimit < 2)) {
+      return { error: 'teamLimit must be an integer of at least 2' };
+    }
+    data.teamLimit = teamLimit;
+  }
+
+  if (body.matchFormat !== undefined) {
+    if (!MATCH_FORMATS.includes(body.matchFormat)) {
+      return { error: `matchFormat must be one of ${MATCH_FORMATS.join(', ')}` };
+    }
+    data.matchFormat = body.matchFormat;
+  }
+
+  for (const key of ['pointsForWin', 'pointsForDraw', 'pointsForLoss'] as const) {
+    if (body[key] === undefined) continue;
+    const value = Number(body[key]);
+    if (!Number.isInteger(value)) return { error: `${key} must be an integer` };
+    data[key] = value;
+  }
+
+  if (body.tieBreakers !== undefined) {
+    if (
+      !Array.isArray(body.tieBreakers) ||
+      body.tieBreakers.some((t: unknown) => !TIE_BREAKERS.includes(t as TieBreaker)) ||
+      new Set(body.tieBreakers).size !== body.tieBreakers.length
+    ) {
+      return { error: `tieBreakers must be a list of distinct values from ${TIE_BREAKERS.join(', ')}` };
+    }
+    data.tieBreakers = body.tieBreakers;
+  }
+
+  const merged = { ...current, ...data };
+  if (merged.startDate && merged.endDate && merged.endDate <= merged.startDate) {
+    return { error: 'endDate must be after startDate' };
+  }
+  const win = merged.pointsForWin ?? 3;
+  const draw = merged.pointsForDraw ?? 1;
+  const loss = merged.pointsForLoss ?? 0;
+  if (!(win >= draw && draw >= loss)) {
+    return { error: 'Points must satisfy win ≥ draw ≥ loss' };
+  }
+
+  return { data };
+}
@@ -0,0 +1,28 @@
+// Response shape shared by the safeguarding routes.
+
+export const SAFEGUARDING_CASE_SELECT = {
+  id: true,
+  injuryType: true,
+  severity: true,
+  referralStatus: true,
+  referredTo: true,
+  referralRef: true,
+  returnToPlayStage: true,
+  clearedAt: true,
+  safeguarding: true,
+  standDownUntil: true,
+  clearanceDocumentUrl: true,
+  clearanceDocumentIssuedBy: true,
+  clearanceDocumentRecordedAt: true,
+  clearanceWaivedAt: true,
+  createdAt: true,
+  player: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      dob: true,
+      team: { select: { id: true, name: true, league: { select: { id: true, name: true } } } },
+    },
+  },
+} as const;
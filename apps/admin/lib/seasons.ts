@@ -0,0 +1,103 @@
+// Season lookups shared by the league, team, fixture and standings routes.
+import { Prisma } from '@prisma/client';
+import { computeStandings } from '../../../packages/league/src/standings';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * The season in play for a league: the ACTIVE one, else the latest PLANNED one.
+ */
+export async function currentSeason(db: Db, leagueId: string) {
+  const active = await db.season.findFirst({ where: { leagueId, status: 'ACTIVE' } });
+  if (active) return active;
+  return db.season.findFirst({
+    where: { leagueId, status: 'PLANNED' },
+    orderBy: [{ startDate: 'desc' }, { createdAt: 'desc' }],
+  });
+}
+
+/**
+ * Current season, creating an ACTIVE one from the league's defaults when the league has none
+ * (leagues created before seasons existed, or brand-new leagues).
+ */
+export async function ensureCurrentSeason(db: Db, leagueId: string) {
+  const existing = await currentSeason(db, leagueId);
+  if (existing) return existing;
+
+  const league = await db.league.findUniqueOrThrow({
+    where: { id: leagueId },
+    select: { startDate: true, endDate: true },
+  });
+  const year = String((league.startDate ?? new Date()).getUTCFullYear());
+  const name = await availableSeasonName(db, leagueId, year);
+  return db.season.create({
+    data: { leagueId, name, startDate: league.startDate, endDate: league.endDate, status: 'ACTIVE' },
+  });
+}
+
+/**
+ * Find a season by name, or create it as PLANNED (used when teams are promoted or
+ * relegated into a league that has not rolled over yet).
+ */
+export async function findOrCreateSeason(
+  db: Db,
+  leagueId: string,
+  data: { name: string; startDate?: Date | null; endDate?: Date | null }
+) {
+  const existing = await db.season.findUnique({ where: { leagueId_name: { leagueId, name: data.name } } });
+  if (existing) return existing;
+  return db.season.create({ data: { leagueId, ...data, status: 'PLANNED' } });
+}
+
+export async function joinSeason(db: Db, seasonId: string, teamId: string) {
+  return db.seasonTeam.upsert({
+    where: { seasonId_teamId: { seasonId, teamId } },
+    create: { seasonId, teamId },
+    update: { leftAt: null },
+  });
+}
+
+/**
+ * Mark the team as having left the league's current season (history is kept).
+ */
+export async function leaveCurrentSeason(db: Db, leagueId: string, teamId: string) {
+  const season = await currentSeason(db, leagueId);
+  if (!season) return;
+  await db.seasonTeam.updateMany({
+    where: { seasonId: season.id, teamId, leftAt: null },
+    data: { leftAt: new Date() },
+  });
+}
+
+/**
+ * League table for one season: every team that played in it (including teams that
+ * left mid-season) with the league's points and tie-breaker rules.
+ */
+export async function seasonStandings(db: Db, seasonId: string) {
+  const season = await db.season.findUniqueOrThrow({
+    where: { id: seasonId },
+    include: {
+      league: {
+        select: { pointsForWin: true, pointsForDraw: true, pointsForLoss: true, tieBreakers: true },
+      },
+      teams: { include: { team: { select: { id: true, name: true } } } },
+    },
+  });
+  const fixtures = await db.fixture.findMany({
+    where: { seasonId, status: 'COMPLETED' },
+    select: { homeTeamId: true, awayTeamId: true, homeScore: true, awayScore: true, status: true },
+  });
+  return computeStandings(
+    season.teams.map((m) => m.team),
+    fixtures,
+    season.league
+  );
+}
+
+async function availableSeasonName(db: Db, leagueId: string, base: string) {
+  for (let n = 1; ; n++) {
+    const name = n === 1 ? base : `${base}-${n}`;
+    const taken = await db.season.findUnique({ where: { leagueId_name: { leagueId, name } }, select: { id: true } });
+    if (!taken) return name;
+  }
+}
@@ -0,0 +1,62 @@
+// Request-body parsing shared by the venue routes.
+
+export type OpeningHoursInput = { weekday: number; opensAt: string; closesAt: string };
+
+export type VenueInput = {
+  name?: string;
+  address?: string | null;
+  slotMinutes?: number;
+  maxMatchesPerSlot?: number | null;
+  openingHours?: OpeningHoursInput[];
+};
+
+const HHMM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Validate a venue create/update body. Returns an error message instead of throwing
+ * so routes can answer 400 directly.
+ */
+export function parseVenueInput(body: any, { partial }: { partial: boolean }): { data: VenueInput } | { error: string } {
+  const data: VenueInput = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = String(body.name || '').trim();
+    if (!name) return { error: 'Missing venue name' };
+    data.name = name;
+  }
+  if (body.address !== undefined) {
+    data.address = body.address ? String(body.address).trim() : null;
+  }
+  if (body.slotMinutes !== undefined) {
+    const slotMinutes = Number(body.slotMinutes);
+    if (!Number.isInteger(slotMinutes) || slotMinutes <= 0) return { error: 'slotMinutes must be a positive integer' };
+    data.slotMinutes = slotMinutes;
+  }
+  if (body.maxMatchesPerSlot !== undefined) {
+    const max = body.maxMatchesPerSlot == null ? null : Number(body.maxMatchesPerSlot);
+    if (max !== null && (!Number.isInteger(max) || max <= 0)) {
+      return { error: 'maxMatchesPerSlot must be a positive integer or null' };
+    }
+    data.maxMatchesPerSlot = max;
+  }
+  if (body.openingHours !== undefined) {
+    if (!Array.isArray(body.openingHours)) return { error: 'openingHours must be an array' };
+    const seen = new Set<number>();
+    const hours: OpeningHoursInput[] = [];
+    for (const h of body.openingHours) {
+      const weekday = Number(h?.weekday);
+      if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+        return { error: 'openingHours.weekday must be 0 (Sunday) to 6 (Saturday)' };
+      }
+      if (seen.has(weekday)) return { error: `openingHours has weekday ${weekday} twice` };
+      if (!HHMM.test(h?.opensAt) || !HHMM.test(h?.closesAt) || h.opensAt >= h.closesAt) {
+        return { error: 'openingHours need opensAt < closesAt as HH:MM' };
+      }
+      seen.add(weekday);
+      hours.push({ weekday, opensAt: h.opensAt, closesAt: h.closesAt });
+    }
+    data.openingHours = hours;
+  }
+
+  return { data };
+}
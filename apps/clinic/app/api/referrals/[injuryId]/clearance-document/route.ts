@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { SafeguardingError, validateClearanceDocument } from '../../../../../../../packages/injuries/src/safeguarding';
+import { recordClearanceDocument } from '../../../../../../../packages/injuries/src/safeguardingRecords';
+import { requireClinicStaff } from '../../../../../lib/auth';
+import { CLINIC_REFERRAL_SELECT, staffSignOff } from '../../../../../lib/referrals';
+
+/**
+ * POST { documentUrl } — record the clearance document for a head injury referred to the caller's clinic
+ * - documentUrl: https link to the signed clearance; the signed-in staff member is recorded as the issuer
+ * - recorded once; the player still needs the stand-down to end and the return-to-play CLEARED stage
+ * - the recording is added to the safeguarding audit trail
+ */
+export async function POST(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await requireClinicStaff(req);
+    if ('response' in auth) return auth.response;
+
+    const referral = await prisma.injury.findFirst({
+      where: { id: params.injuryId, clinicId: auth.caller.clinicId },
+      select: { clinicDecision: true },
+    });
+    if (!referral) return new NextResponse('Referral not found', { status: 404 });
+    if (referral.clinicDecision !== 'ACCEPTED') {
+      return new NextResponse('Accept the referral before recording a clearance document', { status: 409 });
+    }
+
+    const body = await req.json();
+    const signOff = await staffSignOff(auth.caller);
+    const clearance = { documentUrl: String(body.documentUrl || '').trim(), issuedBy: signOff.name };
+    const invalid = validateClearanceDocument(clearance);
+    if (invalid) return new NextResponse(invalid, { status: 400 });
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await recordClearanceDocument(tx, params.injuryId, clearance, auth.caller.id);
+      return tx.injury.findUnique({ where: { id: params.injuryId }, select: CLINIC_REFERRAL_SELECT });
+    });
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    if (err instanceof SafeguardingError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
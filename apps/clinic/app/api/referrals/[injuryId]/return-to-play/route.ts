@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { parseStageChange, ReturnToPlayError } from '../../../../../../../packages/injuries/src/returnToPlay';
+import { changeReturnToPlayStage } from '../../../../../../../packages/injuries/src/returnToPlayRecords';
+import { SafeguardingError } from '../../../../../../../packages/injuries/src/safeguarding';
+import { requireClinicStaff } from '../../../../../lib/auth';
+import { CLINIC_REFERRAL_SELECT, staffSignOff } from '../../../../../lib/referrals';
+
+/**
+ * PATCH { stage?, expectedReturnDate?, note? } — the clinic moves the player's return to play
+ * - only for referrals the caller's clinic accepted
+ * - same stage rules as the manager app; the clinic can also clear HIGH and CRITICAL injuries.
+ *   The signed-in staff member is recorded as the sign-off and the reporting manager is notified
+ * - a Head injury can only be CLEARED after its stand-down and once the clearance document is recorded
+ */
+export async function PATCH(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await requireClinicStaff(req);
+    if ('response' in auth) return auth.response;
+
+    const parsed = parseStageChange(await req.json());
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const referral = await prisma.injury.findFirst({
+      where: { id: params.injuryId, clinicId: auth.caller.clinicId },
+      select: { clinicDecision: true },
+    });
+    if (!referral) return new NextResponse('Referral not found', { status: 404 });
+    if (referral.clinicDecision !== 'ACCEPTED') {
+      return new NextResponse('Accept the referral before updating return to play', { status: 409 });
+    }
+
+    const signOff = await staffSignOff(auth.caller);
+    const updated = await prisma.$transaction(async (tx) => {
+      await changeReturnToPlayStage(tx, params.injuryId, parsed.data, { id: auth.caller.id, signOff });
+      return tx.injury.findUnique({ where: { id: params.injuryId }, select: CLINIC_REFERRAL_SELECT });
+    });
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    if (err instanceof ReturnToPlayError || err instanceof SafeguardingError) {
+      return new NextResponse(err.message, { status: 409 });
+    }
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { ClinicReferralError, parseClinicAction } from '../../../../../../packages/injuries/src/clinicReferrals';
+import { applyClinicAction } from '../../../../../../packages/injuries/src/clinicReferralRecords';
+import { requireClinicStaff } from '../../../../lib/auth';
+import { CLINIC_REFERRAL_SELECT } from '../../../../lib/referrals';
+
+// GET: one referral sent to the caller's clinic, with its status history (oldest change first)
+export async function GET(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await requireClinicStaff(req);
+    if ('response' in auth) return auth.response;
+
+    const referral = await prisma.injury.findFirst({
+      where: { id: params.injuryId, clinicId: auth.caller.clinicId },
+      select: {
+        ...CLINIC_REFERRAL_SELECT,
+        referralEvents: {
+          orderBy: { createdAt: 'asc' },
+          select: { fromStatus: true, toStatus: true, note: true, createdAt: true },
+        },
+      },
+    });
+    if (!referral) return new NextResponse('Referral not found', { status: 404 });
+    return NextResponse.json(referral);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+/**
+ * PATCH { action, appointmentAt?, reason?, outcomeNotes? } — answer or progress a referral
+ * - ACCEPT { appointmentAt? }: PENDING → REFERRED
+ * - DECLINE { reason }: back to the manager (REFERRED → PENDING) to pick another clinic
+ * - SCHEDULE { appointmentAt, outcomeNotes? }: record or move the appointment
+ * - COMPLETE { outcomeNotes? }: REFERRED → COMPLETED; outcome notes must be recorded by then
+ * Every change updates the injury, goes into the referral history and notifies the reporting manager.
+ */
+export async function PATCH(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await requireClinicStaff(req);
+    if ('response' in auth) return auth.response;
+
+    const parsed = parseClinicAction(await req.json());
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const exists = await prisma.injury.findFirst({
+      where: { id: params.injuryId, clinicId: auth.caller.clinicId },
+      select: { id: true },
+    });
+    if (!exists) return new NextResponse('Referral not found', { status: 404 });
+
+    const referral = await prisma.$transaction(async (tx) => {
+      await applyClinicAction(tx, params.injuryId, parsed.data, auth.caller);
+      return tx.injury.findUnique({ where: { id: params.injuryId }, select: CLINIC_REFERRAL_SELECT });
+    });
+    return NextResponse.json(referral);
+  } catch (err: any) {
+    if (err instanceof ClinicReferralError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
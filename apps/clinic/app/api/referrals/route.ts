@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { CLINIC_REFERRAL_VIEWS, ClinicReferralView } from '../../../../../packages/injuries/src/clinicReferrals';
+import { requireClinicStaff } from '../../../lib/auth';
+import { CLINIC_REFERRAL_SELECT } from '../../../lib/referrals';
+
+// Which referrals each view shows
+const VIEW_FILTERS: Record<ClinicReferralView, Prisma.InjuryWhereInput> = {
+  incoming: { referralStatus: { in: ['PENDING', 'REFERRED'] }, clinicDecision: null },
+  active: { referralStatus: { in: ['PENDING', 'REFERRED'] }, clinicDecision: 'ACCEPTED' },
+  closed: { OR: [{ referralStatus: 'COMPLETED' }, { clinicDecision: 'DECLINED' }] },
+  all: {},
+};
+
+// GET: referrals sent to the caller's clinic
+// - ?view=incoming (default): not answered yet, oldest first so nothing waits too long
+// - ?view=active: accepted and not completed, by appointment
+// - ?view=closed: completed or declined, newest first; ?view=all: everything, newest first
+export async function GET(req: Request) {
+  try {
+    const auth = await requireClinicStaff(req);
+    if ('response' in auth) return auth.response;
+
+    const view = (new URL(req.url).searchParams.get('view') ?? 'incoming') as ClinicReferralView;
+    if (!CLINIC_REFERRAL_VIEWS.includes(view)) {
+      return new NextResponse(`view must be one of ${CLINIC_REFERRAL_VIEWS.join(', ')}`, { status: 400 });
+    }
+
+    const referrals = await prisma.injury.findMany({
+      where: { clinicId: auth.caller.clinicId, ...VIEW_FILTERS[view] },
+      orderBy:
+        view === 'incoming'
+          ? { createdAt: 'asc' }
+          : view === 'active'
+            ? [{ appointmentAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }]
+            : { createdAt: 'desc' },
+      select: CLINIC_REFERRAL_SELECT,
+    });
+    return NextResponse.json(referrals);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { ClinicReferralError, parseClinicAction } from '../../../../../../packages/injuries/src/clinicReferrals';
+import { applyClinicAction } from '../../../../../../packages/injuries/src/clinicReferralRecords';
+import { readVoucherToken } from '../../../../../../packages/injuries/src/vouchers';
+import { requireClinicStaff } from '../../../../lib/auth';
+import { CLINIC_REFERRAL_SELECT, staffSignOff } from '../../../../lib/referrals';
+
+/**
+ * POST { token, outcomeNotes? } — redeem a referral voucher when the player attends the caller's clinic
+ * - only vouchers for referrals sent to the caller's clinic (404 otherwise, like a forged voucher)
+ * - a voucher is redeemed once; a used voucher is refused with 409
+ * - redeeming completes the referral like the portal's COMPLETE action: the clinic must have accepted
+ *   it, outcome notes must be recorded by then, and the reporting manager is notified
+ * - the signed-in staff member is recorded as the redeemer
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireClinicStaff(req);
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    if (typeof body.token !== 'string' || !body.token) return new NextResponse('Missing token', { status: 400 });
+    const parsed = parseClinicAction({ action: 'COMPLETE', outcomeNotes: body.outcomeNotes });
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const injuryId = readVoucherToken(body.token);
+    const referral = injuryId
+      ? await prisma.injury.findFirst({
+          where: { id: injuryId, clinicId: auth.caller.clinicId },
+          select: { id: true, voucherRedeemedAt: true },
+        })
+      : null;
+    if (!referral) return new NextResponse('Voucher not recognised', { status: 404 });
+    if (referral.voucherRedeemedAt) {
+      return new NextResponse(`Voucher already used on ${referral.voucherRedeemedAt.toISOString().slice(0, 10)}`, {
+        status: 409,
+      });
+    }
+
+    const redeemedBy = (await staffSignOff(auth.caller)).name;
+    const redeemed = await prisma.$transaction(async (tx) => {
+      // Guard on the voucher so it cannot be redeemed twice concurrently
+      const { count } = await tx.injury.updateMany({
+        where: { id: referral.id, clinicId: auth.caller.clinicId, voucherRedeemedAt: null },
+        data: { voucherRedeemedAt: new Date(), voucherRedeemedBy: redeemedBy },
+      });
+      if (count === 0) throw new ClinicReferralError('Voucher was used by someone else; check it again.');
+
+      await applyClinicAction(tx, referral.id, parsed.data, auth.caller);
+      return tx.injury.findUnique({ where: { id: referral.id }, select: CLINIC_REFERRAL_SELECT });
+    });
+
+    return NextResponse.json(redeemed);
+  } catch (err: any) {
+    if (err instanceof ClinicReferralError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
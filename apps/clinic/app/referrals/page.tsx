@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import ReferralPanel, { Referral } from '../../components/ReferralPanel';
+
+const VIEWS = [
+  { id: 'incoming', label: 'Incoming' },
+  { id: 'active', label: 'Accepted' },
+  { id: 'closed', label: 'Completed & declined' },
+] as const;
+
+type View = (typeof VIEWS)[number]['id'];
+
+export default function ClinicReferralsPage() {
+  const [view, setView] = useState<View>('incoming');
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReferrals = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/referrals?view=${view}`, { cache: 'no-store' });
+      if (!res.ok) throw new Error((await res.text()) || 'Failed to load referrals');
+      setReferrals(await res.json());
+    } catch (err: any) {
+      setError(err?.message ?? 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReferrals();
+  }, [view]);
+
+  const selected = referrals.find((r) => r.id === selectedId) ?? null;
+
+  return (
+    <div className="p-6 space-y-6">
+      <h1 className="text-2xl font-bold">Clinic — Referrals</h1>
+
+      <section className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <aside className="col-span-1 bg-white p-4 rounded-md shadow-sm">
+          <div className="flex gap-3 mb-3 text-sm">
+            {VIEWS.map((v) => (
+              <button
+                key={v.id}
+                onClick={() => setView(v.id)}
+                className={view === v.id ? 'font-semibold text-blue-700' : 'text-gray-500'}
+              >
+                {v.label}
+              </button>
+            ))}
+          </div>
+          {error && <div className="text-sm text-red-600 mb-2">{error}</div>}
+          {loading ? (
+            <div className="text-sm text-gray-500">Loading...</div>
+          ) : (
+            <ul className="space-y-2">
+              {referrals.map((r) => (
+                <li key={r.id}>
+                  <button
+                    onClick={() => setSelectedId(r.id)}
+                    className={`w-full text-left p-2 rounded ${
+                      selectedId === r.id ? 'bg-blue-50 border-l-4 border-blue-500' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="font-medium">
+                      {r.player.firstName} {r.player.lastName}
+                      {r.safeguarding && <span className="ml-1 text-xs text-amber-700">head injury</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {r.injuryType} • {r.severity.toLowerCase()} •{' '}
+                      {r.appointmentAt
+                        ? `appointment ${new Date(r.appointmentAt).toLocaleString()}`
+                        : `received ${new Date(r.createdAt).toLocaleDateString()}`}
+                    </div>
+                  </button>
+                </li>
+              ))}
+              {referrals.length === 0 && <li className="text-sm text-gray-500">No referrals here.</li>}
+            </ul>
+          )}
+        </aside>
+
+        <main className="col-span-2 bg-white p-4 rounded-md shadow-sm">
+          {selected ? (
+            <ReferralPanel referral={selected} onChanged={fetchReferrals} />
+          ) : (
+            <div className="text-sm text-gray-500">Select a referral to answer it, book the appointment or complete it.</div>
+          )}
+        </main>
+      </section>
+    </div>
+  );
+}
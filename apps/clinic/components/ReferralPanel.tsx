@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+export type Referral = {
+  id: string;
+  referralRef: string | null;
+  referralStatus: 'PENDING' | 'REFERRED' | 'COMPLETED' | 'NONE';
+  injuryType: string;
+  severity: string;
+  notes: string | null;
+  safeguarding: boolean;
+  clinicDecision: 'ACCEPTED' | 'DECLINED' | null;
+  clinicDeclineReason: string | null;
+  appointmentAt: string | null;
+  clinicOutcomeNotes: string | null;
+  voucherRedeemedAt: string | null;
+  createdAt: string;
+  player: { id: string; firstName: string; lastName: string; dob: string | null; team: { id: string; name: string } | null };
+  reportedBy: { id: string; name: string | null; email: string } | null;
+};
+
+type Props = {
+  referral: Referral;
+  onChanged: () => void;
+};
+
+// datetime-local value in the browser's time zone
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+/**
+ * ReferralPanel
+ *
+ * - New referral: accept (optionally with the appointment) or decline with a reason.
+ * - Accepted referral: book / move the appointment, keep outcome notes, mark completed.
+ * - The reporting manager is notified of every change by the server.
+ */
+export default function ReferralPanel({ referral, onChanged }: Props) {
+  const [appointment, setAppointment] = useState(toLocalInput(referral.appointmentAt));
+  const [outcome, setOutcome] = useState(referral.clinicOutcomeNotes ?? '');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setAppointment(toLocalInput(referral.appointmentAt));
+    setOutcome(referral.clinicOutcomeNotes ?? '');
+    setReason('');
+    setError(null);
+  }, [referral.id, referral.appointmentAt, referral.clinicOutcomeNotes]);
+
+  const act = async (body: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/referrals/${referral.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error((await res.text()) || 'Request failed');
+      onChanged();
+    } catch (err: any) {
+      setError(err?.message ?? 'An error occurred');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const appointmentAt = appointment ? new Date(appointment).toISOString() : null;
+  const open = referral.referralStatus === 'PENDING' || referral.referralStatus === 'REFERRED';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">
+          {referral.player.firstName} {referral.player.lastName}
+          {referral.player.team && <span className="ml-2 text-sm text-gray-500">{referral.player.team.name}</span>}
+        </h2>
+        <div className="text-xs text-gray-500">
+          Referral {referral.referralRef ?? referral.id} • received {new Date(referral.createdAt).toLocaleString()}
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-2 text-sm">
+        <dt className="text-gray-500">Injury</dt>
+        <dd>
+          {referral.injuryType} ({referral.severity.toLowerCase()})
+        </dd>
+        <dt className="text-gray-500">Date of birth</dt>
+        <dd>{referral.player.dob ? new Date(referral.player.dob).toLocaleDateString() : '—'}</dd>
+        <dt className="text-gray-500">Reported by</dt>
+        <dd>{referral.reportedBy ? `${referral.reportedBy.name ?? ''} <${referral.reportedBy.email}>` : '—'}</dd>
+        <dt className="text-gray-500">Voucher</dt>
+        <dd>{referral.voucherRedeemedAt ? `redeemed ${new Date(referral.voucherRedeemedAt).toLocaleString()}` : 'not redeemed'}</dd>
+      </dl>
+      {referral.notes && <p className="text-sm whitespace-pre-wrap bg-gray-50 p-2 rounded">{referral.notes}</p>}
+      {referral.safeguarding && (
+        <div className="rounded bg-amber-50 p-2 text-sm text-amber-800">
+          Head injury: the player needs a clearance document before returning to play.
+        </div>
+      )}
+
+      {referral.referralStatus === 'COMPLETED' && (
+        <div className="text-sm">
+          <div className="font-medium text-green-700">Completed</div>
+          <p className="whitespace-pre-wrap">{referral.clinicOutcomeNotes}</p>
+        </div>
+      )}
+      {referral.clinicDecision === 'DECLINED' && (
+        <div className="text-sm text-red-700">Declined: {referral.clinicDeclineReason}</div>
+      )}
+
+      {open && referral.clinicDecision !== 'DECLINED' && (
+        <div className="space-y-3 border-t pt-3">
+          <label className="block text-sm">
+            Appointment
+            <input
+              type="datetime-local"
+              value={appointment}
+              onChange={(e) => setAppointment(e.target.value)}
+              className="ml-2 border rounded px-2"
+            />
+          </label>
+
+          {referral.clinicDecision === null ? (
+            <div className="space-y-2">
+              <button
+                disabled={busy}
+                onClick={() => act({ action: 'ACCEPT', appointmentAt })}
+                className="px-3 py-1 rounded bg-green-600 text-white disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <div className="flex gap-2">
+                <input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason for declining"
+                  className="flex-1 border rounded px-2"
+                />
+                <button
+                  disabled={busy || !reason.trim()}
+                  onClick={() => act({ action: 'DECLINE', reason })}
+                  className="px-3 py-1 rounded bg-red-600 text-white disabled:opacity-50"
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <textarea
+                value={outcome}
+                onChange={(e) => setOutcome(e.target.value)}
+                rows={4}
+                placeholder="Outcome notes: assessment, treatment, advice for return to play..."
+                className="w-full border rounded p-2 text-sm"
+              />
+              <div className="flex gap-2">
+                <button
+                  disabled={busy || !appointmentAt}
+                  onClick={() => act({ action: 'SCHEDULE', appointmentAt, outcomeNotes: outcome })}
+                  className="px-3 py-1 rounded bg-blue-600 text-white disabled:opacity-50"
+                >
+                  Save appointment & notes
+                </button>
+                <button
+                  disabled={busy || !outcome.trim()}
+                  onClick={() => act({ action: 'COMPLETE', outcomeNotes: outcome })}
+                  className="px-3 py-1 rounded bg-green-600 text-white disabled:opacity-50"
+                >
+                  Mark completed
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+// Signed-in clinic staff resolution for the clinic portal routes.
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../packages/db/src/prisma';
+import { getSessionUser, SessionUser } from '../../../packages/auth/src/server';
+
+export type ClinicCaller = SessionUser & { clinicId: string };
+
+/**
+ * Resolve the signed-in user and the clinic they work for (User.clinicId).
+ * Every referral query must be scoped to `caller.clinicId`.
+ *
+ * Usage:
+ *  const auth = await requireClinicStaff(req);
+ *  if ('response' in auth) return auth.response;
+ */
+export async function requireClinicStaff(req: Request): Promise<{ caller: ClinicCaller } | { response: NextResponse }> {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Sign in required', code: 'UNAUTHORIZED' }, { status: 401 }) };
+  }
+
+  const { clinicId } = await prisma.user.findUniqueOrThrow({ where: { id: user.id }, select: { clinicId: true } });
+  if (user.role !== 'CLINIC_STAFF' || !clinicId) {
+    return {
+      response: NextResponse.json(
+        { error: 'Only clinic staff accounts can use the clinic portal', code: 'FORBIDDEN' },
+        { status: 403 }
+      ),
+    };
+  }
+  return { caller: { ...user, clinicId } };
+}
@@ -0,0 +1,42 @@
+// Response shape and sign-off shared by the clinic portal referral routes.
+import { prisma } from '../../../packages/db/src/prisma';
+import type { SignOff } from '../../../packages/injuries/src/returnToPlay';
+import type { ClinicCaller } from './auth';
+
+export const CLINIC_REFERRAL_SELECT = {
+  id: true,
+  referralRef: true,
+  referralStatus: true,
+  referralDate: true,
+  injuryType: true,
+  severity: true,
+  notes: true,
+  safeguarding: true,
+  clinicDecision: true,
+  clinicDecidedAt: true,
+  clinicDeclineReason: true,
+  appointmentAt: true,
+  clinicOutcomeNotes: true,
+  voucherRedeemedAt: true,
+  returnToPlayStage: true,
+  expectedReturnDate: true,
+  clearedAt: true,
+  clearedByName: true,
+  createdAt: true,
+  player: {
+    select: { id: true, firstName: true, lastName: true, dob: true, team: { select: { id: true, name: true } } },
+  },
+  reportedBy: { select: { id: true, name: true, email: true } },
+} as const;
+
+/**
+ * Sign-off recorded when the signed-in staff member clears a player, e.g. "Dr A. Jones (Riverside Clinic)".
+ */
+export async function staffSignOff(caller: ClinicCaller): Promise<SignOff> {
+  const staff = await prisma.user.findUniqueOrThrow({
+    where: { id: caller.id },
+    select: { name: true, clinic: { select: { name: true } } },
+  });
+  const who = staff.name?.trim() || caller.email;
+  return { name: staff.clinic ? `${who} (${staff.clinic.name})` : who, source: 'CLINIC' };
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { CheckoutError, checkoutCart } from '../../../../../../packages/vendor/src/checkout';
+import { OutOfStockError } from '../../../../../../packages/vendor/src/stock';
+import { requireUser } from '../../../../lib/auth';
+
+/**
+ * POST — check out the signed-in user's cart
+ * - creates one PENDING order with a line per cart product, each priced through calculateRevenueSplit
+ * - line and order totals (discount, commission, vendor payout) are stored; the cart is emptied
+ * - stock of the variants bought is reserved (409 when a variant has run out)
+ * - the Hive member discount is decided from the buyer's player registration, never from the request
+ *
+ * Response: the order with its lines, plus
+ *   memberDiscount: { applied, reason, message, lines: [{ productId, applied, reason }] }
+ *   reason: ELIGIBLE | DISABLED | NO_PLAYER | NOT_REGISTERED | NO_ACTIVE_SEASON | EXPIRED | CAP_REACHED | VENDOR_OPTED_OUT
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const order = await checkoutCart(auth.user.id);
+    return NextResponse.json(order);
+  } catch (err: any) {
+    if (err instanceof CheckoutError) return new NextResponse(err.message, { status: 400 });
+    if (err instanceof OutOfStockError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
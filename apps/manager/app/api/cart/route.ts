@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { requireUser } from '../../../lib/auth';
+
+const CART_INCLUDE = {
+  product: { select: { id: true, name: true, sku: true, priceCents: true } },
+  variant: { select: { id: true, sku: true, size: true, color: true, priceCents: true, stockQuantity: true } },
+} as const;
+
+// GET: the signed-in user's cart with list-price subtotal (discounts are applied at checkout)
+// POST: add a product { productId, variantId?, quantity? } (adds to the quantity already in the cart)
+//   variantId (size/colour) is required for products that have variants
+// PATCH: set a quantity { productId, variantId?, quantity } (0 removes the line)
+// DELETE: remove a line { productId, variantId? }
+// Stock is only reserved at checkout; the cart shows what is currently available.
+export async function GET(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const items = await prisma.cartItem.findMany({
+      where: { userId: auth.user.id },
+      include: CART_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+    const subtotalCents = items.reduce(
+      (sum, item) => sum + (item.variant?.priceCents ?? item.product.priceCents) * item.quantity,
+      0
+    );
+    return NextResponse.json({ items, subtotalCents });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const { productId, variantId = null, quantity = 1 } = await req.json();
+    if (!productId) return new NextResponse('Missing productId', { status: 400 });
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return new NextResponse('quantity must be a positive integer', { status: 400 });
+    }
+
+    const product = await prisma.product.findFirst({
+      where: { id: productId, archivedAt: null },
+      select: { id: true, variants: { select: { id: true } } },
+    });
+    if (!product) return new NextResponse('Product not found', { status: 404 });
+    if (variantId && !product.variants.some((v) => v.id === variantId)) {
+      return new NextResponse('Variant not found', { status: 404 });
+    }
+    if (!variantId && product.variants.length > 0) {
+      return new NextResponse('Choose a size or colour (variantId)', { status: 400 });
+    }
+
+    const existing = await prisma.cartItem.findFirst({
+      where: { userId: auth.user.id, productId, variantId },
+      select: { id: true },
+    });
+    const item = existing
+      ? await prisma.cartItem.update({
+          where: { id: existing.id },
+          data: { quantity: { increment: quantity } },
+          include: CART_INCLUDE,
+        })
+      : await prisma.cartItem.create({
+          data: { userId: auth.user.id, productId, variantId, quantity },
+          include: CART_INCLUDE,
+        });
+    return NextResponse.json(item);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const { productId, variantId = null, quantity } = await req.json();
+    if (!productId) return new NextResponse('Missing productId', { status: 400 });
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      return new NextResponse('quantity must be a non-negative integer', { status: 400 });
+    }
+
+    const where = { userId: auth.user.id, productId, variantId };
+    if (quantity === 0) {
+      await prisma.cartItem.deleteMany({ where });
+      return NextResponse.json({ ok: true });
+    }
+
+    const existing = await prisma.cartItem.findFirst({ where, select: { id: true } });
+    if (!existing) return new NextResponse('Product is not in the cart', { status: 404 });
+
+    const item = await prisma.cartItem.update({ where: { id: existing.id }, data: { quantity }, include: CART_INCLUDE });
+    return NextResponse.json(item);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const { productId, variantId = null } = await req.json();
+    if (!productId) return new NextResponse('Missing productId', { status: 400 });
+
+    await prisma.cartItem.deleteMany({ where: { userId: auth.user.id, productId, variantId } });
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
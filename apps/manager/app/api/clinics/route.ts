@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+
+// GET: clinics taking referrals (active), by name — the choices when reporting an injury
+export async function GET() {
+  try {
+    const clinics = await prisma.clinic.findMany({
+      where: { active: true },
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true, phone: true, address: true },
+    });
+    return NextResponse.json(clinics);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import {
+  assertTransition,
+  FixtureTransitionError,
+  reconcileScoreReports,
+  validateScore,
+} from '../../../../../../packages/league/src/fixtureLifecycle';
+import { requireUser } from '../../../../lib/auth';
+
+/**
+ * POST { action, ... } — manager actions on a fixture of the signed-in manager's team
+ * - submitScore { homeScore, awayScore }: records this side's score; the fixture is COMPLETED once
+ *   both managers report the same score, DISPUTED if they differ
+ * - postpone { scheduledAt, reason? }: moves the fixture to a new (future) date
+ * - cancel { reason }
+ */
+export async function POST(req: Request, { params }: { params: { fixtureId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+    const managerId = auth.user.id;
+
+    const body = await req.json();
+    const { action } = body;
+
+    const fixture = await prisma.fixture.findUnique({
+      where: { id: params.fixtureId },
+      include: {
+        homeTeam: { select: { id: true, managerId: true } },
+        awayTeam: { select: { id: true, managerId: true } },
+      },
+    });
+    if (!fixture) return new NextResponse('Fixture not found', { status: 404 });
+
+    const side =
+      fixture.homeTeam.managerId === managerId
+        ? fixture.homeTeam.id
+        : fixture.awayTeam.managerId === managerId
+          ? fixture.awayTeam.id
+          : null;
+    if (!side) return new NextResponse('Only the managers of these teams can update this fixture', { status: 403 });
+
+    if (action === 'submitScore') {
+      const { homeScore, awayScore } = body;
+      const invalid = validateScore(homeScore, awayScore);
+      if (invalid) return new NextResponse(invalid, { status: 400 });
+      if (fixture.status !== 'SCHEDULED' && fixture.status !== 'POSTPONED') {
+        throw new FixtureTransitionError(`Cannot report a score for a ${fixture.status} fixture.`);
+      }
+      if (fixture.scheduledAt.getTime() > Date.now()) {
+        return new NextResponse('Scores can only be reported after kick-off', { status: 400 });
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        await tx.scoreReport.upsert({
+          where: { fixtureId_teamId: { fixtureId: fixture.id, teamId: side } },
+          create: { fixtureId: fixture.id, teamId: side, submittedById: managerId, homeScore, awayScore },
+          update: { submittedById: managerId, homeScore, awayScore },
+        });
+        const reports = await tx.scoreReport.findMany({ where: { fixtureId: fixture.id } });
+        const outcome = reconcileScoreReports(fixture, reports);
+
+        if (outcome.resultStatus === 'CONFIRMED') {
+          assertTransition(fixture.status, 'COMPLETED');
+          return tx.fixture.update({
+            where: { id: fixture.id },
+            data: {
+              status: 'COMPLETED',
+              resultStatus: 'CONFIRMED',
+              homeScore: outcome.homeScore,
+              awayScore: outcome.awayScore,
+            },
+          });
+        }
+        return tx.fixture.update({
+          where: { id: fixture.id },
+          data: { resultStatus: outcome.resultStatus },
+        });
+      });
+      return NextResponse.json(updated);
+    }
+
+    if (action === 'postpone') {
+      const scheduledAt = body.scheduledAt ? new Date(body.scheduledAt) : null;
+      if (!scheduledAt || Number.isNaN(scheduledAt.getTime())) {
+        return new NextResponse('Missing or invalid scheduledAt', { status: 400 });
+      }
+      if (scheduledAt.getTime() <= Date.now()) {
+        return new NextResponse('The new date must be in the future', { status: 400 });
+      }
+      assertTransition(fixture.status, 'POSTPONED');
+
+      const updated = await prisma.$transaction(async (tx) => {
+        await tx.scoreReport.deleteMany({ where: { fixtureId: fixture.id } });
+        return tx.fixture.update({
+          where: { id: fixture.id },
+          data: {
+            status: 'POSTPONED',
+            scheduledAt,
+            // the old pitch slot is released; the venue is kept as a label until re-allocated
+            pitchId: null,
+            resultStatus: 'NONE',
+            statusReason: body.reason ? String(body.reason).trim() : null,
+          },
+        });
+      });
+      return NextResponse.json(updated);
+    }
+
+    if (action === 'cancel') {
+      const reason = String(body.reason || '').trim();
+      if (!reason) return new NextResponse('A reason is required to cancel a fixture', { status: 400 });
+      assertTransition(fixture.status, 'CANCELLED');
+
+      const updated = await prisma.fixture.update({
+        where: { id: fixture.id },
+        data: { status: 'CANCELLED', pitchId: null, statusReason: reason },
+      });
+      return NextResponse.json(updated);
+    }
+
+    return new NextResponse('Invalid action (expected submitScore, postpone or cancel)', { status: 400 });
+  } catch (err: any) {
+    if (err instanceof FixtureTransitionError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,157 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { describeBlockers } from '../../../../../../../packages/injuries/src/returnToPlay';
+import { requireUser } from '../../../../../lib/auth';
+import { loadAvailability } from '../../../../../lib/availability';
+import { ROSTER_SELECT } from '../../../../../lib/roster';
+
+// Largest match-day squad a manager can pick
+const MAX_SQUAD_SIZE = 30;
+
+/**
+ * The fixture and the side the signed-in manager `managerId` manages, or an error response.
+ */
+async function loadManagedFixture(fixtureId: string, managerId: string) {
+  const fixture = await prisma.fixture.findUnique({
+    where: { id: fixtureId },
+    select: {
+      id: true,
+      scheduledAt: true,
+      status: true,
+      homeTeam: { select: { id: true, name: true, managerId: true } },
+      awayTeam: { select: { id: true, name: true, managerId: true } },
+    },
+  });
+  if (!fixture) return { error: new NextResponse('Fixture not found', { status: 404 }) };
+
+  const side =
+    fixture.homeTeam.managerId === managerId
+      ? fixture.homeTeam
+      : fixture.awayTeam.managerId === managerId
+        ? fixture.awayTeam
+        : null;
+  if (!side) {
+    return { error: new NextResponse('Only the managers of these teams can pick a squad', { status: 403 }) };
+  }
+  return { fixture, teamId: side.id };
+}
+
+/**
+ * Roster players with their availability at kick-off.
+ */
+async function rosterAtKickOff(teamId: string, kickOff: Date) {
+  const players = await prisma.player.findMany({
+    where: { teamId, registrationStatus: { not: 'RELEASED' } },
+    orderBy: [{ jerseyNumber: 'asc' }, { lastName: 'asc' }],
+    select: ROSTER_SELECT,
+  });
+  const availability = await loadAvailability(players.map((p) => p.id), kickOff);
+  return players.map((p) => ({ ...p, availability: availability[p.id] }));
+}
+
+// GET: the signed-in manager's side of the fixture
+// Response: { fixture: { id, scheduledAt, status }, teamId, roster (with availability at kick-off), selected: playerIds }
+export async function GET(req: Request, { params }: { params: { fixtureId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const loaded = await loadManagedFixture(params.fixtureId, auth.user.id);
+    if ('error' in loaded) return loaded.error;
+    const { fixture, teamId } = loaded;
+
+    const [roster, squad] = await Promise.all([
+      rosterAtKickOff(teamId, fixture.scheduledAt),
+      prisma.fixtureSquadPlayer.findMany({ where: { fixtureId: fixture.id, teamId }, select: { playerId: true } }),
+    ]);
+    return NextResponse.json({
+      fixture: { id: fixture.id, scheduledAt: fixture.scheduledAt, status: fixture.status },
+      teamId,
+      roster,
+      selected: squad.map((s) => s.playerId),
+    });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+/**
+ * PUT { playerIds, acknowledgeUnavailable? } — replace the signed-in manager's squad for the fixture
+ * - only SCHEDULED / POSTPONED fixtures; players must be on the team (not released)
+ * - players unavailable at kick-off (uncleared injuries) are refused with 409
+ *   { error, unavailable: [{ playerId, name, blockers }] } unless acknowledgeUnavailable is true;
+ *   acknowledged picks keep a note of what was overridden
+ * - head-injury safeguarding blocks (stand-down, missing clearance document) cannot be acknowledged: 409
+ */
+export async function PUT(req: Request, { params }: { params: { fixtureId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+    const managerId = auth.user.id;
+
+    const body = await req.json();
+    const playerIds: unknown = body.playerIds;
+    if (!Array.isArray(playerIds) || playerIds.some((id) => typeof id !== 'string')) {
+      return new NextResponse('playerIds must be an array of player ids', { status: 400 });
+    }
+    const ids = [...new Set(playerIds as string[])];
+    if (ids.length > MAX_SQUAD_SIZE) {
+      return new NextResponse(`A squad can have at most ${MAX_SQUAD_SIZE} players`, { status: 400 });
+    }
+
+    const loaded = await loadManagedFixture(params.fixtureId, managerId);
+    if ('error' in loaded) return loaded.error;
+    const { fixture, teamId } = loaded;
+    if (fixture.status !== 'SCHEDULED' && fixture.status !== 'POSTPONED') {
+      return new NextResponse(`Cannot pick a squad for a ${fixture.status} fixture`, { status: 409 });
+    }
+
+    const roster = await rosterAtKickOff(teamId, fixture.scheduledAt);
+    const byId = new Map(roster.map((p) => [p.id, p]));
+    const notOnTeam = ids.filter((id) => !byId.has(id));
+    if (notOnTeam.length) {
+      return new NextResponse(`Not on this team's roster: ${notOnTeam.join(', ')}`, { status: 400 });
+    }
+
+    const blocked = ids
+      .map((id) => byId.get(id)!)
+      .filter((p) => p.availability.blockers.some((b) => !b.overridable));
+    if (blocked.length) {
+      const names = blocked.map((p) => `${p.firstName} ${p.lastName}`).join(', ');
+      return new NextResponse(`Head-injury safeguarding: ${names} cannot be picked until cleared`, { status: 409 });
+    }
+
+    const unavailable = ids
+      .map((id) => byId.get(id)!)
+      .filter((p) => !p.availability.available)
+      .map((p) => ({ playerId: p.id, name: `${p.firstName} ${p.lastName}`, blockers: p.availability.blockers }));
+    if (unavailable.length && body.acknowledgeUnavailable !== true) {
+      return NextResponse.json(
+        { error: 'Some selected players are not cleared to play at kick-off', unavailable },
+        { status: 409 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.fixtureSquadPlayer.deleteMany({ where: { fixtureId: fixture.id, teamId } });
+      await tx.fixtureSquadPlayer.createMany({
+        data: ids.map((playerId) => {
+          const blockers = byId.get(playerId)!.availability.blockers;
+          return {
+            fixtureId: fixture.id,
+            teamId,
+            playerId,
+            selectedById: managerId,
+            acknowledgedBlockers: blockers.length ? describeBlockers(blockers) : null,
+          };
+        }),
+      });
+    });
+
+    return NextResponse.json({ fixtureId: fixture.id, teamId, selected: ids, unavailable });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
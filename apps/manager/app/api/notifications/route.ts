@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { listNotifications, markNotificationsRead } from '../../../../../packages/notifications/src/notifications';
+import { requireUser } from '../../../lib/auth';
+
+// GET: the signed-in manager's notifications (e.g. clinic updates on referrals), newest first
+// - unread only by default; ?all=true includes read ones
+// PATCH: mark read { ids? } — every unread notification when ids is omitted
+export async function GET(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const all = new URL(req.url).searchParams.get('all') === 'true';
+    return NextResponse.json(await listNotifications(prisma, auth.user.id, { all }));
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json().catch(() => ({}));
+    const ids: unknown = body.ids;
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string'))) {
+      return new NextResponse('ids must be an array of notification ids', { status: 400 });
+    }
+    const marked = await markNotificationsRead(prisma, auth.user.id, ids as string[] | undefined);
+    return NextResponse.json({ marked });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
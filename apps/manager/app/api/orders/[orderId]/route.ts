@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { changeOrderStatus, ORDER_INCLUDE } from '../../../../../../packages/vendor/src/checkout';
+import { OrderTransitionError } from '../../../../../../packages/vendor/src/orders';
+import { requireUser } from '../../../../lib/auth';
+
+// GET: one of the signed-in user's orders with its lines
+// POST: { action: 'cancel' } — buyers can cancel their own PENDING orders (reserved stock is released)
+export async function GET(req: Request, { params }: { params: { orderId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const order = await prisma.order.findFirst({
+      where: { id: params.orderId, buyerId: auth.user.id },
+      include: ORDER_INCLUDE,
+    });
+    if (!order) return new NextResponse('Order not found', { status: 404 });
+    return NextResponse.json(order);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: { params: { orderId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const { action } = await req.json();
+    if (action !== 'cancel') return new NextResponse('Invalid action (expected cancel)', { status: 400 });
+
+    const owned = await prisma.order.findFirst({
+      where: { id: params.orderId, buyerId: auth.user.id },
+      select: { id: true },
+    });
+    if (!owned) return new NextResponse('Order not found', { status: 404 });
+
+    const order = await changeOrderStatus(params.orderId, 'CANCELLED');
+    return NextResponse.json(order);
+  } catch (err: any) {
+    if (err instanceof OrderTransitionError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
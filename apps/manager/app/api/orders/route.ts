@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { ORDER_INCLUDE } from '../../../../../packages/vendor/src/checkout';
+import { ORDER_STATUSES, OrderStatus } from '../../../../../packages/vendor/src/orders';
+import { requireUser } from '../../../lib/auth';
+
+// GET: the signed-in user's orders with their lines, newest first
+// - ?status=PENDING => only orders with that status
+export async function GET(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const status = new URL(req.url).searchParams.get('status') as OrderStatus | null;
+    if (status && !ORDER_STATUSES.includes(status)) {
+      return new NextResponse(`Invalid status (expected one of ${ORDER_STATUSES.join(', ')})`, { status: 400 });
+    }
+    const orders = await prisma.order.findMany({
+      where: { buyerId: auth.user.id, ...(status ? { status } : {}) },
+      include: ORDER_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+    return NextResponse.json(orders);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import { requireUser } from '../../../lib/auth';
+
+// GET: products on sale with their sizes/colours (and stock left) and images
+// - ?category=shirts => only that category
+export async function GET(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const category = new URL(req.url).searchParams.get('category');
+    const products = await prisma.product.findMany({
+      where: { archivedAt: null, ...(category ? { category } : {}) },
+      select: {
+        id: true,
+        name: true,
+        sku: true,
+        category: true,
+        description: true,
+        priceCents: true,
+        vendor: { select: { id: true, name: true } },
+        variants: {
+          select: { id: true, sku: true, size: true, color: true, priceCents: true, stockQuantity: true },
+          orderBy: [{ size: 'asc' }, { color: 'asc' }],
+        },
+        images: { select: { url: true, altText: true }, orderBy: { position: 'asc' } },
+      },
+      orderBy: { name: 'asc' },
+    });
+    return NextResponse.json(products);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
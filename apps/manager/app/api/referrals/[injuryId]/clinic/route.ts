@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { requireUser } from '../../../../../lib/auth';
+import { loadManagedInjury, REFERRAL_SELECT } from '../../../../../lib/referrals';
+
+/**
+ * PUT { clinicId, note? } — signed-in manager of the player's team sends an open referral to another clinic
+ * - only while no clinic has accepted it (not yet answered, or declined)
+ * - the new clinic sees it as incoming; the change is added to the referral history
+ */
+export async function PUT(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const body = await req.json();
+    if (!body.clinicId) return new NextResponse('Missing clinicId', { status: 400 });
+
+    const loaded = await loadManagedInjury(params.injuryId, auth.user.id);
+    if ('error' in loaded) return new NextResponse(loaded.error, { status: loaded.status });
+
+    const clinic = await prisma.clinic.findUnique({
+      where: { id: String(body.clinicId) },
+      select: { id: true, name: true, active: true },
+    });
+    if (!clinic?.active) return new NextResponse('Clinic not found or no longer taking referrals', { status: 400 });
+
+    const current = await prisma.injury.findUniqueOrThrow({
+      where: { id: params.injuryId },
+      select: { referralStatus: true, clinicId: true, clinicDecision: true },
+    });
+    if (current.referralStatus !== 'PENDING' && current.referralStatus !== 'REFERRED') {
+      return new NextResponse(`A ${current.referralStatus} referral cannot be sent to another clinic`, { status: 409 });
+    }
+    if (current.clinicDecision === 'ACCEPTED') {
+      return new NextResponse('The clinic has accepted this referral; ask them to decline it first', { status: 409 });
+    }
+    if (current.clinicId === clinic.id && current.clinicDecision === null) {
+      return new NextResponse('The referral is already with this clinic', { status: 409 });
+    }
+
+    const referral = await prisma.$transaction(async (tx) => {
+      // Guard on the state checked above so a clinic accepting at the same time wins
+      const { count } = await tx.injury.updateMany({
+        where: { id: params.injuryId, clinicId: current.clinicId, clinicDecision: current.clinicDecision },
+        data: {
+          clinicId: clinic.id,
+          referredTo: clinic.name,
+          clinicDecision: null,
+          clinicDecidedAt: null,
+          clinicDeclineReason: null,
+          appointmentAt: null,
+        },
+      });
+      if (count === 0) return null;
+
+      await tx.referralEvent.create({
+        data: {
+          injuryId: params.injuryId,
+          fromStatus: current.referralStatus,
+          toStatus: current.referralStatus,
+          changedById: auth.user.id,
+          note: `Sent to ${clinic.name}${body.note ? `: ${String(body.note)}` : ''}`,
+        },
+      });
+      return tx.injury.findUnique({ where: { id: params.injuryId }, select: REFERRAL_SELECT });
+    });
+    if (!referral) return new NextResponse('Referral was changed by someone else; reload and try again.', { status: 409 });
+
+    return NextResponse.json(referral);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
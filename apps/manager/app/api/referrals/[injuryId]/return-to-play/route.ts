@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { InjurySeverity } from '../../../../../../../packages/injuries/src/referrals';
+import {
+  parseStageChange,
+  requiresClearanceSignOff,
+  ReturnToPlayError,
+} from '../../../../../../../packages/injuries/src/returnToPlay';
+import { changeReturnToPlayStage } from '../../../../../../../packages/injuries/src/returnToPlayRecords';
+import { SafeguardingError } from '../../../../../../../packages/injuries/src/safeguarding';
+import { requireUser } from '../../../../../lib/auth';
+import { loadManagedInjury, REFERRAL_SELECT } from '../../../../../lib/referrals';
+
+// GET: the return-to-play stage of an injury on the signed-in manager's team, with its stage history
+// (oldest change first)
+// - signOffRequired says whether it needs a clinic or medic sign-off to clear (HIGH and CRITICAL injuries)
+export async function GET(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const loaded = await loadManagedInjury(params.injuryId, auth.user.id);
+    if ('error' in loaded) return new NextResponse(loaded.error, { status: loaded.status });
+
+    const injury = await prisma.injury.findUnique({
+      where: { id: params.injuryId },
+      select: {
+        ...REFERRAL_SELECT,
+        returnToPlayEvents: {
+          orderBy: { createdAt: 'asc' },
+          select: {
+            fromStage: true,
+            toStage: true,
+            signedOffBy: true,
+            clearanceSource: true,
+            note: true,
+            createdAt: true,
+            changedBy: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+    return NextResponse.json({
+      ...injury,
+      signOffRequired: requiresClearanceSignOff(loaded.injury.severity as InjurySeverity),
+    });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+/**
+ * PATCH { stage?, expectedReturnDate?, note? } — signed-in manager of the player's team
+ * - stage moves forward one step (REST → LIGHT_TRAINING → FULL_TRAINING → CLEARED) or back after a setback
+ * - managers can clear LOW and MEDIUM injuries; HIGH and CRITICAL ones are cleared by the clinic or
+ *   with a medic's sign-off recorded by an admin (409 here). CLEARED makes the player available from now
+ * - a Head injury can only be CLEARED after its stand-down and once the clearance document is recorded
+ * - expectedReturnDate (a date, or null) can be set on its own
+ * - every stage change is added to the history with who made it
+ */
+export async function PATCH(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const parsed = parseStageChange(await req.json());
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const loaded = await loadManagedInjury(params.injuryId, auth.user.id);
+    if ('error' in loaded) return new NextResponse(loaded.error, { status: loaded.status });
+
+    const injury = await prisma.$transaction(async (tx) => {
+      await changeReturnToPlayStage(tx, params.injuryId, parsed.data, { id: auth.user.id, signOff: null });
+      return tx.injury.findUnique({ where: { id: params.injuryId }, select: REFERRAL_SELECT });
+    });
+
+    return NextResponse.json(injury);
+  } catch (err: any) {
+    if (err instanceof ReturnToPlayError || err instanceof SafeguardingError) {
+      return new NextResponse(err.message, { status: 409 });
+    }
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
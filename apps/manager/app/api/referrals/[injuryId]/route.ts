@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { requireUser } from '../../../../lib/auth';
+import { loadManagedInjury, REFERRAL_SELECT } from '../../../../lib/referrals';
+
+// GET: one referral of the signed-in manager's team with its status history (oldest change first)
+// The status is moved by the clinic only (accept, complete or voucher redemption in the clinic portal);
+// the manager can send an open referral to another clinic (PUT ./clinic)
+export async function GET(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const loaded = await loadManagedInjury(params.injuryId, auth.user.id);
+    if ('error' in loaded) return new NextResponse(loaded.error, { status: loaded.status });
+
+    const referral = await prisma.injury.findUnique({
+      where: { id: params.injuryId },
+      select: {
+        ...REFERRAL_SELECT,
+        referralEvents: {
+          orderBy: { createdAt: 'asc' },
+          select: {
+            fromStatus: true,
+            toStatus: true,
+            note: true,
+            createdAt: true,
+            changedBy: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+    return NextResponse.json(referral);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
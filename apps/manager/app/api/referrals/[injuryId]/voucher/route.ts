@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { referralVoucherPdf, signVoucherToken } from '../../../../../../../packages/injuries/src/vouchers';
+import { requireUser } from '../../../../../lib/auth';
+import { loadManagedInjury } from '../../../../../lib/referrals';
+
+// GET: the referral voucher as a PDF download (signed-in manager of the player's team)
+// - carries the referral details and a QR code of the signed verification link for the clinic
+// - the same voucher is rendered every time; it stays valid until the clinic redeems it
+export async function GET(req: Request, { params }: { params: { injuryId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const url = new URL(req.url);
+    const loaded = await loadManagedInjury(params.injuryId, auth.user.id);
+    if ('error' in loaded) return new NextResponse(loaded.error, { status: loaded.status });
+
+    const referral = await prisma.injury.findUnique({
+      where: { id: params.injuryId },
+      select: {
+        id: true,
+        referralRef: true,
+        referredTo: true,
+        injuryType: true,
+        severity: true,
+        notes: true,
+        createdAt: true,
+        safeguarding: true,
+        player: { select: { firstName: true, lastName: true, team: { select: { name: true } } } },
+      },
+    });
+    if (!referral) return new NextResponse('Injury not found', { status: 404 });
+
+    const token = signVoucherToken(referral.id);
+    const verifyUrl = `${url.origin}/api/vouchers/verify?token=${encodeURIComponent(token)}`;
+    const filename = `referral-voucher-${(referral.referralRef ?? referral.id).replace(/[^\w-]+/g, '_')}`;
+
+    return new NextResponse(new Uint8Array(referralVoucherPdf(referral, verifyUrl)), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
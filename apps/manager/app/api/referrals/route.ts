@@ -0,0 +1,179 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../packages/db/src/prisma';
+import {
+  generateReferralReference,
+  INJURY_SEVERITIES,
+  OPEN_REFERRAL_STATUSES,
+  REFERRAL_STATUSES,
+} from '../../../../../packages/injuries/src/referrals';
+import { isHeadInjury, safeguardingSeverity } from '../../../../../packages/injuries/src/safeguarding';
+import { planStandDown, recordConcussionReported } from '../../../../../packages/injuries/src/safeguardingRecords';
+import { requireUser } from '../../../lib/auth';
+import { checkTeamManager } from '../../../lib/roster';
+import { REFERRAL_SELECT } from '../../../lib/referrals';
+
+// Attempts at a unique referral reference before giving up
+const REFERENCE_ATTEMPTS = 5;
+
+// How Prisma names the referral reference in a P2002 target (field, column or constraint)
+const REFERENCE_TARGETS = ['referralRef', 'referral_reference', 'uq_injuries_referral_reference'];
+
+const isReferenceClash = (err: any) =>
+  err?.code === 'P2002' && ([] as string[]).concat(err.meta?.target ?? []).some((t) => REFERENCE_TARGETS.includes(t));
+
+// Both routes are for the team's manager only (signed-in session)
+// GET: referrals for a team ?teamId= (open ones — PENDING/REFERRED — by default), newest first
+// - ?status=COMPLETED => only referrals with that status
+// - ?severity=HIGH    => only injuries of that severity
+export async function GET(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const url = new URL(req.url);
+    const teamId = url.searchParams.get('teamId');
+    const status = url.searchParams.get('status');
+    const severity = url.searchParams.get('severity');
+    if (!teamId) return new NextResponse('Missing teamId', { status: 400 });
+
+    const denied = await checkTeamManager(teamId, auth.user.id);
+    if (denied) return new NextResponse(denied.error, { status: denied.status });
+
+    if (status && !REFERRAL_STATUSES.includes(status as any)) {
+      return new NextResponse(`status must be one of ${REFERRAL_STATUSES.join(', ')}`, { status: 400 });
+    }
+    if (severity && !INJURY_SEVERITIES.includes(severity as any)) {
+      return new NextResponse(`severity must be one of ${INJURY_SEVERITIES.join(', ')}`, { status: 400 });
+    }
+
+    const referrals = await prisma.injury.findMany({
+      where: {
+        player: { teamId },
+        referralStatus: status ? (status as any) : { in: OPEN_REFERRAL_STATUSES },
+        ...(severity ? { severity: severity as any } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      select: REFERRAL_SELECT,
+    });
+    return NextResponse.json(referrals);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+/**
+ * POST { playerId, injuryType, severity?, notes?, clinicId }
+ * - the signed-in manager must manage the player's team and is recorded as the reporter
+ * - clinicId: an active clinic (GET /api/clinics); the clinic sees the referral in its portal
+ * - records the injury with a PENDING referral and a unique reference (retried on collision)
+ * - the NONE → PENDING change is written to the referral history
+ * - a Head injury takes the safeguarding path: severity at least HIGH, referred to the clinic at once
+ *   (PENDING → REFERRED), stood down by age group, admins alerted (see packages/injuries/src/safeguarding.ts)
+ *
+ * Response: { id, referralReference, referredTo, createdAt, safeguarding: { standDownUntil, minDays } | null }
+ */
+export async function POST(req: Request) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+    const reportedById = auth.user.id;
+
+    const body = await req.json();
+    const { playerId } = body;
+    const injuryType = String(body.injuryType || '').trim();
+    const clinicId = body.clinicId ? String(body.clinicId) : '';
+    const reportedSeverity = body.severity ?? 'MEDIUM';
+
+    if (!playerId) return new NextResponse('Missing playerId', { status: 400 });
+    if (!injuryType) return new NextResponse('Missing injuryType', { status: 400 });
+    if (!clinicId) return new NextResponse('Missing clinicId', { status: 400 });
+    if (!INJURY_SEVERITIES.includes(reportedSeverity)) {
+      return new NextResponse(`severity must be one of ${INJURY_SEVERITIES.join(', ')}`, { status: 400 });
+    }
+
+    const player = await prisma.player.findUnique({ where: { id: playerId }, select: { teamId: true, dob: true } });
+    if (!player) return new NextResponse('Player not found', { status: 404 });
+    if (!player.teamId) return new NextResponse('Player is not on a team', { status: 400 });
+
+    const denied = await checkTeamManager(player.teamId, reportedById);
+    if (denied) return new NextResponse(denied.error, { status: denied.status });
+
+    const clinic = await prisma.clinic.findUnique({ where: { id: clinicId }, select: { name: true, active: true } });
+    if (!clinic?.active) return new NextResponse('Clinic not found or no longer taking referrals', { status: 400 });
+
+    const headInjury = isHeadInjury(injuryType);
+    const severity = headInjury ? safeguardingSeverity(reportedSeverity) : reportedSeverity;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { injury, plan } = await prisma.$transaction(async (tx) => {
+          const now = new Date();
+          const plan = headInjury ? await planStandDown(tx, player.dob, now) : null;
+          const injury = await tx.injury.create({
+            data: {
+              playerId,
+              reportedById,
+              injuryType,
+              severity,
+              notes: body.notes ? String(body.notes) : null,
+              referralStatus: headInjury ? 'REFERRED' : 'PENDING',
+              referralDate: headInjury ? now : null,
+              referredTo: clinic.name,
+              clinicId,
+              referralRef: generateReferralReference(),
+              safeguarding: headInjury,
+              standDownUntil: plan?.standDownUntil ?? null,
+              referralEvents: {
+                create: [
+                  { fromStatus: 'NONE', toStatus: 'PENDING', changedById: reportedById },
+                  ...(headInjury
+                    ? [
+                        {
+                          fromStatus: 'PENDING' as const,
+                          toStatus: 'REFERRED' as const,
+                          changedById: reportedById,
+                          note: 'Head injury: immediate clinic referral',
+                        },
+                      ]
+                    : []),
+                ],
+              },
+            },
+            select: {
+              id: true,
+              referralRef: true,
+              referredTo: true,
+              createdAt: true,
+              player: {
+                select: {
+                  firstName: true,
+                  lastName: true,
+                  team: { select: { name: true, league: { select: { name: true } } } },
+                },
+              },
+            },
+          });
+          if (plan) {
+            await recordConcussionReported(tx, { ...injury, standDownUntil: plan.standDownUntil }, plan.minDays, reportedById);
+          }
+          return { injury, plan };
+        });
+
+        return NextResponse.json({
+          id: injury.id,
+          referralReference: injury.referralRef,
+          referredTo: injury.referredTo,
+          createdAt: injury.createdAt,
+          safeguarding: plan ? { standDownUntil: plan.standDownUntil, minDays: plan.minDays } : null,
+        });
+      } catch (err: any) {
+        // Reference clash: try a fresh one
+        if (!isReferenceClash(err) || attempt >= REFERENCE_ATTEMPTS) throw err;
+      }
+    }
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { requireUser } from '../../../../../lib/auth';
+import { checkTeamManager } from '../../../../../lib/roster';
+
+// GET: the team's fixtures (home and away) for its signed-in manager
+// - scoreReports holds only the team's own report until the result is CONFIRMED, so the opponent's
+//   report cannot be copied before both sides have reported independently
+export async function GET(req: Request, { params }: { params: { teamId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const denied = await checkTeamManager(params.teamId, auth.user.id);
+    if (denied) return new NextResponse(denied.error, { status: denied.status });
+
+    const fixtures = await prisma.fixture.findMany({
+      where: { OR: [{ homeTeamId: params.teamId }, { awayTeamId: params.teamId }] },
+      orderBy: { scheduledAt: 'asc' },
+      include: {
+        homeTeam: { select: { id: true, name: true } },
+        awayTeam: { select: { id: true, name: true } },
+        scoreReports: { select: { teamId: true, homeScore: true, awayScore: true } },
+      },
+    });
+    return NextResponse.json(
+      fixtures.map((f) => ({
+        ...f,
+        scoreReports:
+          f.resultStatus === 'CONFIRMED' ? f.scoreReports : f.scoreReports.filter((r) => r.teamId === params.teamId),
+      }))
+    );
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { CheckoutError, createTeamOrder, ORDER_INCLUDE } from '../../../../../../../packages/vendor/src/checkout';
+import { OutOfStockError } from '../../../../../../../packages/vendor/src/stock';
+import { validateKitLines } from '../../../../../../../packages/vendor/src/teamOrders';
+import { requireUser } from '../../../../../lib/auth';
+import { checkTeamManager, ROSTER_SELECT } from '../../../../../lib/roster';
+
+/**
+ * GET — the team's roster (to size the squad) and its previous kit orders, newest first
+ *
+ * POST — order kit for the squad in one order (team manager only)
+ * Body: { lines: [{ playerId, productId, variantId?, quantity?, printName?, printNumber? }] }
+ * - one line per player and item; variantId (size/colour) is required for products with variants
+ * - the Hive member discount is applied per registered player in the team's active season
+ * - stock is reserved (409 when a variant has run out)
+ *
+ * Response: the order with its lines, plus
+ *   memberDiscount: { applied, lines: [{ playerId, playerName, productId, applied, reason }] }
+ */
+export async function GET(req: Request, { params }: { params: { teamId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const denied = await checkTeamManager(params.teamId, auth.user.id);
+    if (denied) return new NextResponse(denied.error, { status: denied.status });
+
+    const [roster, orders] = await Promise.all([
+      prisma.player.findMany({
+        where: { teamId: params.teamId, registrationStatus: { not: 'RELEASED' } },
+        orderBy: [{ jerseyNumber: 'asc' }, { lastName: 'asc' }],
+        select: ROSTER_SELECT,
+      }),
+      prisma.order.findMany({
+        where: { teamId: params.teamId },
+        include: ORDER_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+    return NextResponse.json({ roster, orders });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: { params: { teamId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+
+    const denied = await checkTeamManager(params.teamId, auth.user.id);
+    if (denied) return new NextResponse(denied.error, { status: denied.status });
+
+    const { lines } = await req.json();
+    const invalid = validateKitLines(lines);
+    if (invalid) return new NextResponse(invalid, { status: 400 });
+
+    const order = await createTeamOrder(auth.user.id, params.teamId, lines);
+    return NextResponse.json(order);
+  } catch (err: any) {
+    if (err instanceof CheckoutError) return new NextResponse(err.message, { status: 400 });
+    if (err instanceof OutOfStockError) return new NextResponse(err.message, { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
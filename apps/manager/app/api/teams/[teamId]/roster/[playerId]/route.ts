@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../../packages/db/src/prisma';
+import { requireUser } from '../../../../../../lib/auth';
+import { checkTeamManager, jerseyConflict, parsePlayerInput, ROSTER_SELECT } from '../../../../../../lib/roster';
+
+// Team manager only (signed-in session)
+// PATCH: update a player on the team { firstName?, lastName?, dob?, jerseyNumber?, position?, registrationStatus? }
+// DELETE: release the player from the team (status RELEASED, jersey number freed)
+export async function PATCH(req: Request, { params }: { params: { teamId: string; playerId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+    const denied = await checkTeamManager(params.teamId, auth.user.id);
+    if (denied) return new NextResponse(denied.error, { status: denied.status });
+
+    const player = await prisma.player.findFirst({ where: { id: params.playerId, teamId: params.teamId } });
+    if (!player) return new NextResponse('Player is not on this team', { status: 404 });
+
+    const body = await req.json();
+    const parsed = parsePlayerInput(body, { partial: true });
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const conflict = await jerseyConflict(params.teamId, parsed.data.jerseyNumber, player.id);
+    if (conflict) return new NextResponse(conflict, { status: 409 });
+
+    const updated = await prisma.player.update({
+      where: { id: player.id },
+      data: parsed.data,
+      select: ROSTER_SELECT,
+    });
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    if (err?.code === 'P2002') return new NextResponse('Jersey number is already taken', { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: { params: { teamId: string; playerId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+    const denied = await checkTeamManager(params.teamId, auth.user.id);
+    if (denied) return new NextResponse(denied.error, { status: denied.status });
+
+    const player = await prisma.player.findFirst({ where: { id: params.playerId, teamId: params.teamId } });
+    if (!player) return new NextResponse('Player is not on this team', { status: 404 });
+
+    const released = await prisma.player.update({
+      where: { id: player.id },
+      data: { teamId: null, jerseyNumber: null, registrationStatus: 'RELEASED' },
+      select: ROSTER_SELECT,
+    });
+    return NextResponse.json(released);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../../../packages/db/src/prisma';
+import { requireUser } from '../../../../../../../lib/auth';
+import { checkTeamManager, ROSTER_SELECT } from '../../../../../../../lib/roster';
+
+// POST: transfer a player to another team { toTeamId, jerseyNumber? }
+// The current team's manager starts the transfer; the player joins the new team as PENDING
+// until that team's manager registers them. The jersey number is dropped if it is taken there.
+export async function POST(req: Request, { params }: { params: { teamId: string; playerId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+    const denied = await checkTeamManager(params.teamId, auth.user.id);
+    if (denied) return new NextResponse(denied.error, { status: denied.status });
+
+    const body = await req.json();
+    const { toTeamId } = body;
+    if (!toTeamId) return new NextResponse('Missing toTeamId', { status: 400 });
+    if (toTeamId === params.teamId) return new NextResponse('Player is already on this team', { status: 400 });
+
+    const [player, target] = await Promise.all([
+      prisma.player.findFirst({ where: { id: params.playerId, teamId: params.teamId } }),
+      prisma.team.findUnique({ where: { id: toTeamId }, select: { id: true } }),
+    ]);
+    if (!player) return new NextResponse('Player is not on this team', { status: 404 });
+    if (!target) return new NextResponse('Destination team not found', { status: 404 });
+
+    const wanted: number | null = body.jerseyNumber === undefined ? player.jerseyNumber : body.jerseyNumber;
+    if (wanted !== null && (!Number.isInteger(wanted) || wanted < 1 || wanted > 99)) {
+      return new NextResponse('jerseyNumber must be between 1 and 99', { status: 400 });
+    }
+    const transferred = await prisma.$transaction(async (tx) => {
+      const taken =
+        wanted == null
+          ? null
+          : await tx.player.findFirst({ where: { teamId: toTeamId, jerseyNumber: wanted }, select: { id: true } });
+      return tx.player.update({
+        where: { id: player.id },
+        data: {
+          teamId: toTeamId,
+          jerseyNumber: taken ? null : wanted,
+          registrationStatus: 'PENDING',
+        },
+        select: ROSTER_SELECT,
+      });
+    });
+    return NextResponse.json(transferred);
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../../packages/db/src/prisma';
+import { requireUser } from '../../../../../lib/auth';
+import { loadAvailability } from '../../../../../lib/availability';
+import {
+  checkTeamManager,
+  jerseyConflict,
+  parsePlayerInput,
+  REGISTRATION_STATUSES,
+  RegistrationStatus,
+  ROSTER_SELECT,
+} from '../../../../../lib/roster';
+
+// Both routes are for the team's manager only (signed-in session)
+// GET: players on the team's roster (released players excluded), by jersey number
+// - ?status=REGISTERED => only players with that registration status
+// - each player has `availability` { available, blockers } for ?date= (default now): uncleared injuries
+// POST: add a player { firstName, lastName, dob?, jerseyNumber?, position? } (starts PENDING)
+export async function GET(req: Request, { params }: { params: { teamId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+    const denied = await checkTeamManager(params.teamId, auth.user.id);
+    if (denied) return new NextResponse(denied.error, { status: denied.status });
+
+    const url = new URL(req.url);
+    const status = url.searchParams.get('status') as RegistrationStatus | null;
+    if (status && !REGISTRATION_STATUSES.includes(status)) {
+      return new NextResponse(`Invalid status (expected one of ${REGISTRATION_STATUSES.join(', ')})`, { status: 400 });
+    }
+    const date = url.searchParams.get('date');
+    const on = date ? new Date(date) : new Date();
+    if (Number.isNaN(on.getTime())) return new NextResponse('Invalid date', { status: 400 });
+
+    const players = await prisma.player.findMany({
+      where: {
+        teamId: params.teamId,
+        registrationStatus: status ?? { not: 'RELEASED' },
+      },
+      orderBy: [{ jerseyNumber: 'asc' }, { lastName: 'asc' }],
+      select: ROSTER_SELECT,
+    });
+    const availability = await loadAvailability(players.map((p) => p.id), on);
+    return NextResponse.json(players.map((p) => ({ ...p, availability: availability[p.id] })));
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: { params: { teamId: string } }) {
+  try {
+    const auth = await requireUser(req);
+    if ('response' in auth) return auth.response;
+    const denied = await checkTeamManager(params.teamId, auth.user.id);
+    if (denied) return new NextResponse(denied.error, { status: denied.status });
+
+    const body = await req.json();
+    const parsed = parsePlayerInput(body, { partial: false });
+    if ('error' in parsed) return new NextResponse(parsed.error, { status: 400 });
+
+    const conflict = await jerseyConflict(params.teamId, parsed.data.jerseyNumber);
+    if (conflict) return new NextResponse(conflict, { status: 409 });
+
+    const player = await prisma.player.create({
+      data: {
+        ...parsed.data,
+        firstName: parsed.data.firstName!,
+        lastName: parsed.data.lastName!,
+        teamId: params.teamId,
+        registrationStatus: 'PENDING',
+      },
+      select: ROSTER_SELECT,
+    });
+    return NextResponse.json(player);
+  } catch (err: any) {
+    if (err?.code === 'P2002') return new NextResponse('Jersey number is already taken', { status: 409 });
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
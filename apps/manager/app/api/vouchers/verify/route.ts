@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../../../../../../packages/db/src/prisma';
+import { readVoucherToken } from '../../../../../../packages/injuries/src/vouchers';
+
+const VOUCHER_SELECT = {
+  id: true,
+  referralRef: true,
+  referredTo: true,
+  referralStatus: true,
+  referralDate: true,
+  injuryType: true,
+  severity: true,
+  safeguarding: true,
+  voucherRedeemedAt: true,
+  voucherRedeemedBy: true,
+  createdAt: true,
+  player: { select: { firstName: true, lastName: true } },
+} as const;
+
+/**
+ * The referral behind a voucher token, or an error response when the voucher is not genuine.
+ */
+async function loadVoucher(token: unknown) {
+  if (typeof token !== 'string' || !token) return { error: new NextResponse('Missing token', { status: 400 }) };
+  const injuryId = readVoucherToken(token);
+  const referral = injuryId
+    ? await prisma.injury.findUnique({ where: { id: injuryId }, select: VOUCHER_SELECT })
+    : null;
+  if (!referral) return { error: new NextResponse('Voucher not recognised', { status: 404 }) };
+  return { referral };
+}
+
+const isUnused = (referral: { voucherRedeemedAt: Date | null; referralStatus: string }) =>
+  !referral.voucherRedeemedAt && referral.referralStatus !== 'COMPLETED';
+
+// GET: check a voucher ?token= (the link in the voucher's QR code); public, for anyone holding the voucher
+// Response: { genuine: true, unused, referral } — 404 when the voucher was not issued by us
+// Redemption is for the referral's clinic only: POST /api/vouchers/redeem in the clinic portal
+export async function GET(req: Request) {
+  try {
+    const loaded = await loadVoucher(new URL(req.url).searchParams.get('token'));
+    if ('error' in loaded) return loaded.error;
+    return NextResponse.json({ genuine: true, unused: isUnused(loaded.referral), referral: loaded.referral });
+  } catch (err: any) {
+    console.error(err);
+    return new NextResponse(err?.message ?? 'Server error', { status: 500 });
+  }
+}
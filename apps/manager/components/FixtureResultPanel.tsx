@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from "react";
+
+type TeamRef = {
+  id: string;
+  name: string;
+};
+
+type Fixture = {
+  id: string;
+  scheduledAt: string;
+  status: "SCHEDULED" | "POSTPONED" | "COMPLETED" | "CANCELLED";
+  resultStatus: "NONE" | "AWAITING_CONFIRMATION" | "CONFIRMED" | "DISPUTED";
+  statusReason?: string | null;
+  homeScore?: number | null;
+  awayScore?: number | null;
+  venue?: string | null;
+  homeTeam: TeamRef;
+  awayTeam: TeamRef;
+  scoreReports: Array<{ teamId: string; homeScore: number; awayScore: number }>;
+};
+
+type Action = "submitScore" | "postpone" | "cancel";
+
+type Props = {
+  teamId: string;
+  // Optional endpoint overrides for testing
+  fixturesEndpoint?: string;
+  fixtureEndpoint?: (fixtureId: string) => string;
+};
+
+const STATUS_STYLES: Record<Fixture["status"], string> = {
+  SCHEDULED: "bg-blue-50 text-blue-700",
+  POSTPONED: "bg-amber-50 text-amber-700",
+  COMPLETED: "bg-green-50 text-green-700",
+  CANCELLED: "bg-gray-100 text-gray-600",
+};
+
+/**
+ * FixtureResultPanel
+ *
+ * - Lists the team's fixtures
+ * - Lets the manager report a score (counts once the other manager reports the same score),
+ *   postpone with a new date, or cancel with a reason
+ * - Disputed scores are shown as waiting for an admin
+ */
+export const FixtureResultPanel: React.FC<Props> = ({
+  teamId,
+  fixturesEndpoint,
+  fixtureEndpoint,
+}) => {
+  const fixturesUrl = fixturesEndpoint ?? `/api/teams/${teamId}/fixtures`;
+  const fixtureUrl = fixtureEndpoint ?? ((id: string) => `/api/fixtures/${id}`);
+
+  const [fixtures, setFixtures] = useState<Fixture[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [openFixtureId, setOpenFixtureId] = useState<string | null>(null);
+  const [action, setAction] = useState<Action>("submitScore");
+  const [homeScore, setHomeScore] = useState<string>("");
+  const [awayScore, setAwayScore] = useState<string>("");
+  const [newDate, setNewDate] = useState<string>("");
+  const [reason, setReason] = useState<string>("");
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const fetchFixtures = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(fixturesUrl, { credentials: "include", cache: "no-store" });
+      if (!res.ok) throw new Error((await res.text()) || "Failed to fetch fixtures");
+      const data = await res.json();
+      setFixtures(Array.isArray(data) ? data : []);
+    } catch (err: any) {
+      setError(err?.message ?? "Error fetching fixtures");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFixtures();
+  }, [fixturesUrl]);
+
+  const openAction = (fixture: Fixture, next: Action) => {
+    const own = fixture.scoreReports.find((r) => r.teamId === teamId);
+    setOpenFixtureId(fixture.id);
+    setAction(next);
+    setHomeScore(own ? String(own.homeScore) : "");
+    setAwayScore(own ? String(own.awayScore) : "");
+    setNewDate("");
+    setReason("");
+    setSubmitError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!openFixtureId) return;
+    setSubmitError(null);
+
+    let payload: Record<string, unknown>;
+    if (action === "submitScore") {
+      if (homeScore === "" || awayScore === "") {
+        setSubmitError("Enter both scores.");
+        return;
+      }
+      payload = { homeScore: Number(homeScore), awayScore: Number(awayScore) };
+    } else if (action === "postpone") {
+      if (!newDate) {
+        setSubmitError("Pick the new date and time.");
+        return;
+      }
+      payload = { scheduledAt: new Date(newDate).toISOString(), reason };
+    } else {
+      if (!reason.trim()) {
+        setSubmitError("A reason is required to cancel.");
+        return;
+      }
+      payload = { reason };
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(fixtureUrl(openFixtureId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, ...payload }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const text = await res.text();
+        throw new Error(text || `Failed to update fixture (${res.status})`);
+      }
+      setOpenFixtureId(null);
+      fetchFixtures();
+    } catch (err: any) {
+      setSubmitError(err?.message ?? "Failed to update fixture");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const describeResult = (f: Fixture) => {
+    if (f.status === "COMPLETED") return `${f.homeScore} – ${f.awayScore}`;
+    if (f.resultStatus === "DISPUTED") return "Scores disagree — waiting for an admin";
+    if (f.resultStatus === "AWAITING_CONFIRMATION") {
+      const own = f.scoreReports.find((r) => r.teamId === teamId);
+      return own
+        ? `You reported ${own.homeScore} – ${own.awayScore}; waiting for the other manager`
+        : "The other manager reported a score; please confirm";
+    }
+    return null;
+  };
+
+  return (
+    <div className="max-w-2xl bg-white shadow-sm rounded-md p-6">
+      <h2 className="text-lg font-semibold mb-4">Fixtures & Results</h2>
+
+      {loading ? (
+        <div className="text-sm text-gray-500">Loading fixtures...</div>
+      ) : error ? (
+        <div className="text-sm text-red-600">Fixtures error: {error}</div>
+      ) : fixtures.length === 0 ? (
+        <div className="text-sm text-gray-700">No fixtures scheduled for this team.</div>
+      ) : (
+        <ul className="space-y-3">
+          {fixtures.map((f) => {
+            const open = openFixtureId === f.id;
+            const editable = f.status === "SCHEDULED" || f.status === "POSTPONED";
+            const started = new Date(f.scheduledAt).getTime() <= Date.now();
+            const result = describeResult(f);
+
+            return (
+              <li key={f.id} className="border rounded-md p-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">
+                      {f.homeTeam.name} vs {f.awayTeam.name}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(f.scheduledAt).toLocaleString()}
+                      {f.venue ? ` • ${f.venue}` : ""}
+                    </div>
+                  </div>
+                  <span className={`text-xs px-2 py-1 rounded ${STATUS_STYLES[f.status]}`}>{f.status}</span>
+                </div>
+
+                {result && <div className="mt-1 text-sm text-gray-700">{result}</div>}
+                {f.statusReason && <div className="mt-1 text-xs text-gray-500">Reason: {f.statusReason}</div>}
+
+                {editable && !open && (
+                  <div className="mt-2 flex gap-3 text-sm">
+                    {started && (
+                      <button type="button" className="text-blue-600 hover:underline" onClick={() => openAction(f, "submitScore")}>
+                        Report score
+                      </button>
+                    )}
+                    <button type="button" className="text-amber-700 hover:underline" onClick={() => openAction(f, "postpone")}>
+                      Postpone
+                    </button>
+                    <button type="button" className="text-red-600 hover:underline" onClick={() => openAction(f, "cancel")}>
+                      Cancel
+                    </button>
+                  </div>
+                )}
+
+                {open && (
+                  <form onSubmit={handleSubmit} className="mt-3 space-y-3">
+                    {action === "submitScore" && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">{f.homeTeam.name}</label>
+                          <input
+                            type="number"
+                            min={0}
+                            value={homeScore}
+                            onChange={(e) => setHomeScore(e.target.value)}
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm"
+                            aria-label="Home score"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">{f.awayTeam.name}</label>
+                          <input
+                            type="number"
+                            min={0}
+                            value={awayScore}
+                            onChange={(e) => setAwayScore(e.target.value)}
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm"
+                            aria-label="Away score"
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {action === "postpone" && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">New date & time</label>
+                        <input
+                          type="datetime-local"
+                          value={newDate}
+                          onChange={(e) => setNewDate(e.target.value)}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm"
+                        />
+                      </div>
+                    )}
+
+                    {action !== "submitScore" && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Reason {action === "postpone" ? "(optional)" : ""}
+                        </label>
+                        <input
+                          value={reason}
+                          onChange={(e) => setReason(e.target.value)}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm"
+                          placeholder="e.g. waterlogged pitch"
+                        />
+                      </div>
+                    )}
+
+                    {submitError && <div className="text-sm text-red-600">{submitError}</div>}
+
+                    <div className="flex items-center gap-3">
+                      <button
+                        type="submit"
+                        disabled={submitting}
+                        className={`px-4 py-2 rounded-md text-white ${
+                          submitting ? "bg-gray-400" : "bg-blue-600 hover:bg-blue-700"
+                        }`}
+                      >
+                        {submitting
+                          ? "Saving…"
+                          : action === "submitScore"
+                            ? "Submit score"
+                            : action === "postpone"
+                              ? "Postpone fixture"
+                              : "Cancel fixture"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setOpenFixtureId(null)}
+                        className="text-sm text-gray-600 hover:underline"
+                      >
+                        Close
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FixtureResultPanel;
@@ -1,4 +1,3 @@
-```tsx
 import React, { useEffect, useState } from "react";
 
 type Player = {
@@ -9,6 +8,13 @@ type Player = {
   position?: string | null;
 };
 
+type Clinic = {
+  id: string;
+  name: string;
+  phone: string | null;
+  address: string | null;
+};
+
 type ReferralResponse = {
   id: string;
   referralReference?: string;
@@ -18,12 +24,11 @@ type ReferralResponse = {
 
 type Props = {
   teamId: string;
-  // Manager identity (can be obtained from auth/session instead)
-  managerId: string;
   managerName?: string;
   // Optional endpoint override for testing
   rosterEndpoint?: string;
   referralsEndpoint?: string;
+  clinicsEndpoint?: string;
 };
 
 const INJURY_TYPES = [
@@ -42,13 +47,14 @@ const SEVERITIES = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
 
 export const InjuryReportForm: React.FC<Props> = ({
   teamId,
-  managerId,
   managerName,
   rosterEndpoint,
   referralsEndpoint,
+  clinicsEndpoint,
 }) => {
   const rosterUrl = rosterEndpoint ?? `/api/teams/${teamId}/roster`;
   const referralsUrl = referralsEndpoint ?? `/api/referrals`;
+  const clinicsUrl = clinicsEndpoint ?? `/api/clinics`;
 
   const [players, setPlayers] = useState<Player[] | null>(null);
   const [loadingRoster, setLoadingRoster] = useState<boolean>(true);
@@ -58,12 +64,15 @@ export const InjuryReportForm: React.FC<Props> = ({
   const [injuryType, setInjuryType] = useState<string>(INJURY_TYPES[0]);
   const [severity, setSeverity] = useState<string>(SEVERITIES[1]); // default MEDIUM
   const [notes, setNotes] = useState<string>("");
+  const [clinics, setClinics] = useState<Clinic[]>([]);
+  const [clinicId, setClinicId] = useState<string>("");
 
   const [submitting, setSubmitting] = useState<boolean>(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [lastReferral, setLastReferral] = useState<ReferralResponse | null>(
     null
   );
+  const [voucherError, setVoucherError] = useState<string | null>(null);
 
   useEffect(() => {
     let mounted = true;
@@ -99,114 +108,44 @@ export const InjuryReportForm: React.FC<Props> = ({
     };
   }, [rosterUrl, teamId]);
 
-  const findPlayer = (id: string) => players?.find((p) => p.id === id) ?? null;
-
-  const generateVoucherHtml = (
-    referral: ReferralResponse,
-    player: Player | null
-  ) => {
-    const date = new Date(referral.createdAt ?? Date.now()).toLocaleString();
-    const referralRef = referral.referralReference ?? referral.id;
-    const referredTo = referral.referredTo ?? "AO Clinic";
-
-    return `
-      <!doctype html>
-      <html>
-        <head>
-          <meta charset="utf-8"/>
-          <title>Digital Referral Voucher - ${referralRef}</title>
-          <style>
-            body { font-family: Arial, Helvetica, sans-serif; padding: 24px; color: #111827; }
-            .card { border: 1px solid #e5e7eb; padding: 20px; border-radius: 8px; max-width: 700px; margin: 0 auto;}
-            h1 { font-size: 20px; margin-bottom: 8px; }
-            .meta { color: #6b7280; margin-bottom: 16px; }
-            .row { display:flex; justify-content:space-between; margin-bottom:8px; }
-            .label { color: #6b7280; font-size: 12px; }
-            .value { font-weight: 600; }
-            .notes { margin-top: 16px; white-space: pre-wrap; background:#f9fafb;padding:12px;border-radius:6px;}
-            .footer { margin-top: 22px; font-size: 12px; color:#6b7280; }
-            .logo { font-weight:700; color:#1f2937;}
-          </style>
-        </head>
-        <body>
-          <div class="card">
-            <div style="display:flex;justify-content:space-between;align-items:center;margin-bottom:12px;">
-              <div>
-                <div class="logo">Sesigo Hive</div>
-                <div class="meta">Digital Referral Voucher</div>
-              </div>
-              <div style="text-align:right;">
-                <div>Referral #: <strong>${referralRef}</strong></div>
-                <div>${date}</div>
-              </div>
-            </div>
-
-            <h1>Patient & Referral Details</h1>
-
-            <div class="row">
-              <div>
-                <div class="label">Player</div>
-                <div class="value">${player ? escapeHtml(
-                  `${player.firstName} ${player.lastName}`
-                ) : "—"}</div>
-              </div>
-              <div>
-                <div class="label">Referred To</div>
-                <div class="value">${escapeHtml(referredTo)}</div>
-              </div>
-            </div>
-
-            <div class="row">
-              <div>
-                <div class="label">Manager</div>
-                <div class="value">${escapeHtml(managerName ?? "Manager")}</div>
-              </div>
-              <div>
-                <div class="label">Referral ID</div>
-                <div class="value">${referralRef}</div>
-              </div>
-            </div>
-
-            <div class="notes">
-              This voucher authorises ${escapeHtml(
-                managerName ?? "the manager"
-              )} to refer the player to ${escapeHtml(referredTo)}. Please present this voucher at the clinic reception.
-            </div>
-
-            <div class="footer">
-              Generated by Sesigo Hive • ${new Date().toLocaleString()}
-            </div>
-          </div>
-        </body>
-      </html>
-    `;
-  };
+  useEffect(() => {
+    let mounted = true;
+    fetch(clinicsUrl, { credentials: "include" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error((await res.text()) || "Failed to fetch clinics");
+        return res.json();
+      })
+      .then((list: Clinic[]) => {
+        if (!mounted) return;
+        setClinics(list);
+        if (list.length > 0) setClinicId((prev) => prev || list[0].id);
+      })
+      .catch((err: any) => {
+        if (!mounted) return;
+        setSubmitError(err?.message ?? "Error fetching clinics");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [clinicsUrl]);
 
-  // small helper to prevent injection in voucher html
-  const escapeHtml = (str: string) =>
-    String(str)
-      .replaceAll("&", "&amp;")
-      .replaceAll("<", "&lt;")
-      .replaceAll(">", "&gt;")
-      .replaceAll('"', "&quot;")
-      .replaceAll("'", "&#039;");
-
-  const openVoucherWindow = (html: string) => {
-    const w = window.open("", "_blank", "noopener,noreferrer");
-    if (!w) {
-      alert(
-        "Popup blocked. Your browser prevented the voucher window from opening. Please allow popups for this site to view/print voucher."
-      );
-      return;
+  // The server renders the voucher PDF (with a signed QR code for the clinic); download it
+  const downloadVoucher = async (referral: ReferralResponse) => {
+    setVoucherError(null);
+    try {
+      const res = await fetch(`${referralsUrl}/${referral.id}/voucher`, { credentials: "include" });
+      if (!res.ok) throw new Error((await res.text()) || "Failed to download the voucher");
+      const href = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = href;
+      link.download = `referral-voucher-${referral.referralReference ?? referral.id}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(href);
+    } catch (err: any) {
+      setVoucherError(err?.message ?? "Error downloading the voucher");
     }
-    w.document.open();
-    w.document.write(html);
-    w.document.close();
-    // Give the browser a moment to render before calling print if desired
-    setTimeout(() => {
-      // Optionally trigger print:
-      // w.print();
-    }, 300);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -217,16 +156,19 @@ export const InjuryReportForm: React.FC<Props> = ({
       setSubmitError("Please select a player who is injured.");
       return;
     }
+    if (!clinicId) {
+      setSubmitError("Please select the clinic to refer the player to.");
+      return;
+    }
 
     setSubmitting(true);
     try {
       const payload = {
         playerId: selectedPlayerId,
-        reportedById: managerId,
         injuryType,
         severity,
         notes,
-        referredTo: "AO Clinic", // default referral target (can be selected/enhanced)
+        clinicId,
       };
 
       const resp = await fetch(referralsUrl, {
@@ -246,10 +188,7 @@ export const InjuryReportForm: React.FC<Props> = ({
       const data: ReferralResponse = await resp.json();
       setLastReferral(data);
 
-      // Generate voucher HTML and open for printing/downloading
-      const player = findPlayer(selectedPlayerId);
-      const html = generateVoucherHtml(data, player);
-      openVoucherWindow(html);
+      await downloadVoucher(data);
 
       // Reset form (optional)
       setNotes("");
@@ -328,6 +267,33 @@ export const InjuryReportForm: React.FC<Props> = ({
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Refer to clinic</label>
+            <select
+              value={clinicId}
+              onChange={(e) => setClinicId(e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              required
+              aria-label="Clinic"
+            >
+              {clinics.length === 0 && <option value="">No clinics available</option>}
+              {clinics.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                  {c.address ? ` — ${c.address}` : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {injuryType === "Head" && (
+            <div className="rounded bg-amber-50 p-3 text-sm text-amber-800">
+              Suspected concussion: the player is referred straight away, stood down for the minimum period for
+              their age and cannot be picked until a clinic clearance document is recorded. League admins are
+              alerted.
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700">Notes (optional)</label>
             <textarea
@@ -340,6 +306,7 @@ export const InjuryReportForm: React.FC<Props> = ({
           </div>
 
           {submitError && <div className="text-sm text-red-600">{submitError}</div>}
+          {voucherError && <div className="text-sm text-red-600">Voucher: {voucherError}</div>}
 
           <div className="flex items-center gap-3">
             <button
@@ -357,13 +324,11 @@ export const InjuryReportForm: React.FC<Props> = ({
                 href="#"
                 onClick={(e) => {
                   e.preventDefault();
-                  const player = findPlayer(selectedPlayerId);
-                  const html = generateVoucherHtml(lastReferral, player);
-                  openVoucherWindow(html);
+                  downloadVoucher(lastReferral);
                 }}
                 className="text-sm text-blue-600 hover:underline"
               >
-                Re-open last voucher
+                Download last voucher again
               </a>
             )}
           </div>
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from "react";
+
+type Blocker = {
+  kind: string;
+  injuryId: string;
+  injuryType: string;
+  stage: string;
+  expectedReturnDate: string | null;
+  overridable: boolean;
+};
+
+type RosterPlayer = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  jerseyNumber: number | null;
+  position: string | null;
+  availability: { available: boolean; blockers: Blocker[] };
+};
+
+type SquadResponse = {
+  fixture: { id: string; scheduledAt: string; status: string };
+  teamId: string;
+  roster: RosterPlayer[];
+  selected: string[];
+};
+
+type Props = {
+  fixtureId: string;
+  // Optional endpoint override for testing
+  squadEndpoint?: string;
+};
+
+const STAGE_LABELS: Record<string, string> = {
+  REST: "resting",
+  LIGHT_TRAINING: "light training",
+  FULL_TRAINING: "full training",
+};
+
+const describe = (blockers: Blocker[]) =>
+  blockers
+    .map((b) => {
+      if (b.kind === "STAND_DOWN") {
+        return `${b.injuryType} stand-down until ${new Date(b.expectedReturnDate!).toLocaleDateString()}`;
+      }
+      if (b.kind === "CLEARANCE_DOCUMENT") return `${b.injuryType} awaiting clearance document`;
+      const back = b.expectedReturnDate ? `, back ${new Date(b.expectedReturnDate).toLocaleDateString()}` : "";
+      return `${b.injuryType} (${STAGE_LABELS[b.stage] ?? b.stage}${back})`;
+    })
+    .join(", ");
+
+/**
+ * MatchSquadPicker
+ *
+ * - Lists the roster with availability at kick-off; players with uncleared injuries are marked
+ * - Picking an unavailable player asks for confirmation first; head-injury safeguarding blocks cannot be overridden
+ * - Saves the squad; the server refuses unavailable players unless the manager confirmed
+ */
+export const MatchSquadPicker: React.FC<Props> = ({ fixtureId, squadEndpoint }) => {
+  const squadUrl = squadEndpoint ?? `/api/fixtures/${fixtureId}/squad`;
+
+  const [data, setData] = useState<SquadResponse | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<boolean>(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch(squadUrl, { credentials: "include", cache: "no-store" });
+        if (!res.ok) throw new Error((await res.text()) || "Failed to load the squad");
+        const body: SquadResponse = await res.json();
+        setData(body);
+        setSelected(new Set(body.selected));
+      } catch (err: any) {
+        setError(err?.message ?? "Error loading the squad");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [squadUrl]);
+
+  const toggle = (player: RosterPlayer) => {
+    setSaved(false);
+    if (selected.has(player.id)) {
+      setSelected((prev) => new Set([...prev].filter((id) => id !== player.id)));
+      return;
+    }
+    if (!player.availability.available) {
+      const ok = window.confirm(
+        `${player.firstName} ${player.lastName} is not cleared to play: ${describe(player.availability.blockers)}.\n\nPick them anyway?`
+      );
+      if (!ok) return;
+    }
+    setSelected((prev) => new Set(prev).add(player.id));
+  };
+
+  const save = async () => {
+    if (!data) return;
+    setSaving(true);
+    setError(null);
+    try {
+      // Unavailable picks were confirmed one by one in toggle()
+      const res = await fetch(squadUrl, {
+        method: "PUT",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ playerIds: [...selected], acknowledgeUnavailable: true }),
+      });
+      if (!res.ok) throw new Error((await res.text()) || "Failed to save the squad");
+      setSaved(true);
+    } catch (err: any) {
+      setError(err?.message ?? "Error saving the squad");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <div className="text-sm text-gray-500">Loading squad...</div>;
+  if (!data) return <div className="text-sm text-red-600">{error}</div>;
+
+  const editable = data.fixture.status === "SCHEDULED" || data.fixture.status === "POSTPONED";
+  const unavailablePicked = data.roster.filter((p) => selected.has(p.id) && !p.availability.available);
+
+  return (
+    <div className="max-w-2xl bg-white shadow-sm rounded-md p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Match-day squad</h2>
+        <div className="text-xs text-gray-500">Kick-off {new Date(data.fixture.scheduledAt).toLocaleString()}</div>
+      </div>
+
+      <ul className="divide-y">
+        {data.roster.map((p) => (
+          <li key={p.id} className="py-2 flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={selected.has(p.id)}
+              onChange={() => toggle(p)}
+              disabled={!editable || (!selected.has(p.id) && p.availability.blockers.some((b) => !b.overridable))}
+              className="mt-1"
+            />
+            <div className="flex-1">
+              <div className={p.availability.available ? "" : "text-gray-500"}>
+                {p.jerseyNumber != null && <span className="text-gray-500 mr-1">#{p.jerseyNumber}</span>}
+                {p.firstName} {p.lastName}
+                {p.position && <span className="ml-1 text-xs text-gray-400">{p.position.toLowerCase()}</span>}
+              </div>
+              {!p.availability.available && (
+                <div className="text-xs text-red-600">Unavailable: {describe(p.availability.blockers)}</div>
+              )}
+            </div>
+          </li>
+        ))}
+        {data.roster.length === 0 && <li className="py-2 text-sm text-gray-500">No players on the roster.</li>}
+      </ul>
+
+      {unavailablePicked.length > 0 && (
+        <div className="rounded bg-amber-50 p-2 text-sm text-amber-800">
+          {unavailablePicked.length} picked player{unavailablePicked.length === 1 ? " is" : "s are"} not cleared to play.
+        </div>
+      )}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={save}
+          disabled={!editable || saving}
+          className="px-4 py-2 rounded bg-blue-600 text-white disabled:opacity-50"
+        >
+          {saving ? "Saving…" : `Save squad (${selected.size})`}
+        </button>
+        {saved && <span className="text-sm text-green-700">Squad saved</span>}
+      </div>
+    </div>
+  );
+};
+
+export default MatchSquadPicker;
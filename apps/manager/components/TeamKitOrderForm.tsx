@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useState } from "react";
+
+type Player = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  jerseyNumber: number | null;
+  registrationStatus: "PENDING" | "REGISTERED" | "SUSPENDED" | "RELEASED";
+};
+
+type Variant = {
+  id: string;
+  sku: string;
+  size: string | null;
+  color: string | null;
+  priceCents: number | null;
+  stockQuantity: number;
+};
+
+type Product = {
+  id: string;
+  name: string;
+  priceCents: number;
+  vendor: { id: string; name: string };
+  variants: Variant[];
+};
+
+type PlayerChoice = {
+  include: boolean;
+  variantId: string;
+  printName: string;
+  printNumber: string;
+};
+
+type DiscountLine = { playerId: string; playerName: string; applied: boolean; reason: string };
+
+type Props = {
+  teamId: string;
+  onOrdered?: (orderId: string) => void;
+};
+
+const REASON_LABELS: Record<string, string> = {
+  ELIGIBLE: "member discount",
+  DISABLED: "discount switched off",
+  NOT_REGISTERED: "not registered",
+  NO_ACTIVE_SEASON: "team not in an active season",
+  EXPIRED: "season discount expired",
+  CAP_REACHED: "season allowance used",
+  VENDOR_OPTED_OUT: "vendor does not offer the discount",
+};
+
+const dollars = (cents: number) => (cents / 100).toFixed(2);
+
+/**
+ * TeamKitOrderForm
+ *
+ * - Loads the team roster and the kit on sale
+ * - One row per player: include, size/colour, printed name and number (defaults from the roster)
+ * - Places one team order; the response says per player whether the member discount applied
+ */
+export const TeamKitOrderForm: React.FC<Props> = ({ teamId, onOrdered }) => {
+  const [roster, setRoster] = useState<Player[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [productId, setProductId] = useState<string>("");
+  const [choices, setChoices] = useState<Record<string, PlayerChoice>>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ orderId: string; totalCents: number; discounts: DiscountLine[] } | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [rosterRes, productsRes] = await Promise.all([
+          fetch(`/api/teams/${teamId}/kit-orders`, { credentials: "include", cache: "no-store" }),
+          fetch("/api/products", { credentials: "include", cache: "no-store" }),
+        ]);
+        if (!rosterRes.ok) throw new Error((await rosterRes.text()) || "Failed to load the roster");
+        if (!productsRes.ok) throw new Error((await productsRes.text()) || "Failed to load products");
+        const { roster: players } = await rosterRes.json();
+        setRoster(players);
+        setProducts(await productsRes.json());
+        setChoices(
+          Object.fromEntries(
+            (players as Player[]).map((p) => [
+              p.id,
+              {
+                include: true,
+                variantId: "",
+                printName: p.lastName.toUpperCase(),
+                printNumber: p.jerseyNumber?.toString() ?? "",
+              },
+            ])
+          )
+        );
+      } catch (err: any) {
+        setError(err?.message ?? "Error loading kit order");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [teamId]);
+
+  const product = useMemo(() => products.find((p) => p.id === productId) ?? null, [products, productId]);
+
+  const setChoice = (playerId: string, patch: Partial<PlayerChoice>) =>
+    setChoices((prev) => ({ ...prev, [playerId]: { ...prev[playerId], ...patch } }));
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+    setError(null);
+
+    const picked = roster.filter((p) => choices[p.id]?.include);
+    if (picked.length === 0) {
+      setError("Pick at least one player.");
+      return;
+    }
+    if (product.variants.length > 0 && picked.some((p) => !choices[p.id].variantId)) {
+      setError("Choose a size for every player in the order.");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const lines = picked.map((p) => ({
+        playerId: p.id,
+        productId: product.id,
+        variantId: choices[p.id].variantId || null,
+        printName: choices[p.id].printName.trim() || null,
+        printNumber: choices[p.id].printNumber === "" ? null : Number(choices[p.id].printNumber),
+      }));
+      const res = await fetch(`/api/teams/${teamId}/kit-orders`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lines }),
+      });
+      if (!res.ok) throw new Error((await res.text()) || "Failed to place the order");
+      const order = await res.json();
+      setResult({ orderId: order.id, totalCents: order.orderTotalCents, discounts: order.memberDiscount.lines });
+      onOrdered?.(order.id);
+    } catch (err: any) {
+      setError(err?.message ?? "Error placing the order");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) return <div className="text-sm text-gray-500">Loading roster...</div>;
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-1">Kit</label>
+        <select
+          value={productId}
+          onChange={(e) => setProductId(e.target.value)}
+          className="border rounded px-2 py-1 w-full"
+        >
+          <option value="">Select a product…</option>
+          {products.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name} — ${dollars(p.priceCents)} ({p.vendor.name})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {product && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th />
+              <th>Player</th>
+              <th>Size</th>
+              <th>Print name</th>
+              <th>Number</th>
+            </tr>
+          </thead>
+          <tbody>
+            {roster.map((p) => {
+              const choice = choices[p.id];
+              return (
+                <tr key={p.id} className="border-t">
+                  <td className="py-1">
+                    <input
+                      type="checkbox"
+                      checked={choice.include}
+                      onChange={(e) => setChoice(p.id, { include: e.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    {p.jerseyNumber != null && <span className="text-gray-500 mr-1">#{p.jerseyNumber}</span>}
+                    {p.firstName} {p.lastName}
+                    {p.registrationStatus !== "REGISTERED" && (
+                      <span className="ml-1 text-xs text-amber-700">({p.registrationStatus.toLowerCase()})</span>
+                    )}
+                  </td>
+                  <td>
+                    {product.variants.length === 0 ? (
+                      <span className="text-gray-500">One size</span>
+                    ) : (
+                      <select
+                        value={choice.variantId}
+                        onChange={(e) => setChoice(p.id, { variantId: e.target.value })}
+                        className="border rounded px-1"
+                        disabled={!choice.include}
+                      >
+                        <option value="">—</option>
+                        {product.variants.map((v) => (
+                          <option key={v.id} value={v.id} disabled={v.stockQuantity === 0}>
+                            {[v.size, v.color].filter(Boolean).join(" / ")}
+                            {v.stockQuantity === 0 ? " (sold out)" : ""}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                  <td>
+                    <input
+                      value={choice.printName}
+                      maxLength={20}
+                      onChange={(e) => setChoice(p.id, { printName: e.target.value })}
+                      className="border rounded px-1 w-32"
+                      disabled={!choice.include}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min={0}
+                      max={99}
+                      value={choice.printNumber}
+                      onChange={(e) => setChoice(p.id, { printNumber: e.target.value })}
+                      className="border rounded px-1 w-16"
+                      disabled={!choice.include}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <button
+        type="submit"
+        disabled={!product || submitting}
+        className="px-4 py-2 rounded bg-blue-600 text-white disabled:opacity-50"
+      >
+        {submitting ? "Placing order…" : "Place team order"}
+      </button>
+
+      {result && (
+        <div className="rounded border p-3 text-sm">
+          <div className="font-medium">
+            Order {result.orderId} placed — total ${dollars(result.totalCents)}
+          </div>
+          <ul className="mt-2 space-y-1">
+            {result.discounts.map((d) => (
+              <li key={d.playerId} className={d.applied ? "text-green-700" : "text-gray-600"}>
+                {d.playerName}: {REASON_LABELS[d.reason] ?? d.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default TeamKitOrderForm;
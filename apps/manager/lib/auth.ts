@@ -0,0 +1,18 @@
+// Signed-in user resolution for the manager app routes.
+import { NextResponse } from 'next/server';
+import { getSessionUser, SessionUser } from '../../../packages/auth/src/server';
+
+/**
+ * Resolve the signed-in user from the Supabase session.
+ *
+ * Usage:
+ *  const auth = await requireUser(req);
+ *  if ('response' in auth) return auth.response;
+ */
+export async function requireUser(req: Request): Promise<{ user: SessionUser } | { response: NextResponse }> {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Sign in required', code: 'UNAUTHORIZED' }, { status: 401 }) };
+  }
+  return { user };
+}
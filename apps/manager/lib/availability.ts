@@ -0,0 +1,38 @@
+// Player availability for roster views and the match-day squad picker.
+import { prisma } from '../../../packages/db/src/prisma';
+import { Availability, playerAvailability } from '../../../packages/injuries/src/returnToPlay';
+
+const AVAILABILITY_INJURY_SELECT = {
+  id: true,
+  playerId: true,
+  injuryType: true,
+  severity: true,
+  returnToPlayStage: true,
+  expectedReturnDate: true,
+  clearedAt: true,
+  createdAt: true,
+  safeguarding: true,
+  standDownUntil: true,
+  clearanceDocumentRecordedAt: true,
+  clearanceWaivedAt: true,
+} as const;
+
+/**
+ * Availability of each player on `on`; players without blocking injuries are available.
+ * Safeguarded (head) injuries are always loaded: they can block after the injury is cleared.
+ */
+export async function loadAvailability(playerIds: string[], on: Date): Promise<Record<string, Availability>> {
+  const injuries = await prisma.injury.findMany({
+    where: {
+      playerId: { in: playerIds },
+      createdAt: { lte: on },
+      OR: [{ clearedAt: null }, { clearedAt: { gt: on } }, { safeguarding: true }],
+    },
+    orderBy: { createdAt: 'asc' },
+    select: AVAILABILITY_INJURY_SELECT,
+  });
+
+  return Object.fromEntries(
+    playerIds.map((id) => [id, playerAvailability(injuries.filter((i) => i.playerId === id), on)])
+  );
+}
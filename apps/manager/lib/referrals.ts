@@ -0,0 +1,70 @@
+// Ownership checks and response shape shared by the referral routes.
+import { prisma } from '../../../packages/db/src/prisma';
+
+export const REFERRAL_SELECT = {
+  id: true,
+  playerId: true,
+  injuryType: true,
+  severity: true,
+  notes: true,
+  referralStatus: true,
+  referredTo: true,
+  referralDate: true,
+  referralRef: true,
+  returnToPlayStage: true,
+  expectedReturnDate: true,
+  clearedAt: true,
+  clearedByName: true,
+  clearanceSource: true,
+  safeguarding: true,
+  standDownUntil: true,
+  clearanceDocumentUrl: true,
+  clearanceDocumentIssuedBy: true,
+  clearanceDocumentRecordedAt: true,
+  clearanceWaivedAt: true,
+  voucherRedeemedAt: true,
+  voucherRedeemedBy: true,
+  clinicDecision: true,
+  clinicDecidedAt: true,
+  clinicDeclineReason: true,
+  appointmentAt: true,
+  clinicOutcomeNotes: true,
+  clinic: { select: { id: true, name: true, phone: true, address: true } },
+  createdAt: true,
+  player: { select: { id: true, firstName: true, lastName: true, teamId: true } },
+} as const;
+
+/**
+ * Load an injury and check that the signed-in user `userId` manages the injured player's team.
+ */
+export async function loadManagedInjury(
+  injuryId: string,
+  userId: string | undefined
+): Promise<
+  | { injury: { id: string; referralStatus: string; severity: string; returnToPlayStage: string } }
+  | { status: number; error: string }
+> {
+  if (!userId) return { status: 401, error: 'Sign in required' };
+  const injury = await prisma.injury.findUnique({
+    where: { id: injuryId },
+    select: {
+      id: true,
+      referralStatus: true,
+      severity: true,
+      returnToPlayStage: true,
+      player: { select: { team: { select: { managerId: true } } } },
+    },
+  });
+  if (!injury) return { status: 404, error: 'Injury not found' };
+  if (injury.player.team?.managerId !== userId) {
+    return { status: 403, error: "Managers can only manage their own team's referrals" };
+  }
+  return {
+    injury: {
+      id: injury.id,
+      referralStatus: injury.referralStatus,
+      severity: injury.severity,
+      returnToPlayStage: injury.returnToPlayStage,
+    },
+  };
+}
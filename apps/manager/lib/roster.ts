@@ -0,0 +1,101 @@
+// Request-body parsing and ownership checks shared by the roster routes.
+import { prisma } from '../../../packages/db/src/prisma';
+
+export type PlayerPosition = 'GOALKEEPER' | 'DEFENDER' | 'MIDFIELDER' | 'FORWARD';
+export type RegistrationStatus = 'PENDING' | 'REGISTERED' | 'SUSPENDED' | 'RELEASED';
+
+export type PlayerInput = {
+  firstName?: string;
+  lastName?: string;
+  dob?: Date | null;
+  jerseyNumber?: number | null;
+  position?: PlayerPosition | null;
+  registrationStatus?: RegistrationStatus;
+};
+
+export const REGISTRATION_STATUSES: RegistrationStatus[] = ['PENDING', 'REGISTERED', 'SUSPENDED', 'RELEASED'];
+
+const POSITIONS: PlayerPosition[] = ['GOALKEEPER', 'DEFENDER', 'MIDFIELDER', 'FORWARD'];
+// RELEASED is set by the release route only, so it also leaves the team
+const EDITABLE_STATUSES: RegistrationStatus[] = ['PENDING', 'REGISTERED', 'SUSPENDED'];
+
+export const ROSTER_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  dob: true,
+  jerseyNumber: true,
+  position: true,
+  registrationStatus: true,
+  teamId: true,
+} as const;
+
+/**
+ * Validate a player create/update body; returns an error message instead of throwing.
+ */
+export function parsePlayerInput(body: any, { partial }: { partial: boolean }): { data: PlayerInput } | { error: string } {
+  const data: PlayerInput = {};
+
+  for (const key of ['firstName', 'lastName'] as const) {
+    if (body[key] === undefined && partial) continue;
+    const value = String(body[key] || '').trim();
+    if (!value) return { error: `Missing ${key}` };
+    data[key] = value;
+  }
+
+  if (body.dob !== undefined) {
+    const dob = body.dob ? new Date(body.dob) : null;
+    if (dob && (Number.isNaN(dob.getTime()) || dob > new Date())) return { error: 'Invalid dob' };
+    data.dob = dob;
+  }
+
+  if (body.jerseyNumber !== undefined) {
+    const jersey = body.jerseyNumber == null || body.jerseyNumber === '' ? null : Number(body.jerseyNumber);
+    if (jersey !== null && (!Number.isInteger(jersey) || jersey < 1 || jersey > 99)) {
+      return { error: 'jerseyNumber must be between 1 and 99' };
+    }
+    data.jerseyNumber = jersey;
+  }
+
+  if (body.position !== undefined) {
+    if (body.position !== null && !POSITIONS.includes(body.position)) {
+      return { error: `position must be one of ${POSITIONS.join(', ')}` };
+    }
+    data.position = body.position;
+  }
+
+  if (body.registrationStatus !== undefined) {
+    if (!EDITABLE_STATUSES.includes(body.registrationStatus)) {
+      return { error: `registrationStatus must be one of ${EDITABLE_STATUSES.join(', ')} (use release to remove a player)` };
+    }
+    data.registrationStatus = body.registrationStatus;
+  }
+
+  return { data };
+}
+
+/**
+ * Check that the signed-in user `userId` manages `teamId`.
+ */
+export async function checkTeamManager(
+  teamId: string,
+  userId: string | undefined
+): Promise<{ status: number; error: string } | null> {
+  if (!userId) return { status: 401, error: 'Sign in required' };
+  const team = await prisma.team.findUnique({ where: { id: teamId }, select: { managerId: true } });
+  if (!team) return { status: 404, error: 'Team not found' };
+  if (team.managerId !== userId) return { status: 403, error: "Managers can only act on their own team" };
+  return null;
+}
+
+/**
+ * Returns an error message if the jersey number is already worn by someone else on the team.
+ */
+export async function jerseyConflict(teamId: string, jerseyNumber: number | null | undefined, playerId?: string) {
+  if (jerseyNumber == null) return null;
+  const taken = await prisma.player.findFirst({
+    where: { teamId, jerseyNumber, ...(playerId ? { id: { not: playerId } } : {}) },
+    select: { firstName: true, lastName: true },
+  });
+  return taken ? `Jersey #${jerseyNumber} is already worn by ${taken.firstName} ${taken.lastName}` : null;
+}
@@ -0,0 +1,22 @@
+import type { PrismaClient } from '@prisma/client';
+import { prisma } from '../../db/src/prisma';
+import { getSessionUser, SessionUser } from '../../auth/src/server';
+
+export type { SessionUser };
+
+export type Context = {
+  prisma: PrismaClient;
+  user: SessionUser | null;
+};
+
+/**
+ * Build the tRPC context for a request.
+ * - the Supabase session (Authorization header or cookies) is verified by packages/auth
+ * - no session or an invalid token => anonymous context (user: null)
+ *
+ * Tests and server-side callers can skip this and pass their own context to
+ * `appRouter.createCaller(ctx)`.
+ */
+export async function createContext({ req }: { req: Request }): Promise<Context> {
+  return { prisma, user: await getSessionUser(req) };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { InjurySeverity, PrismaClient, Role } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { appRouter } from './router';
+import type { SessionUser } from './context';
+
+const PLAYER_ID = '7d0f3c52-9a43-4d4e-8f31-2b6c1f0e5a11';
+const MANAGER: SessionUser = { id: 'manager-1', email: 'manager@example.com', role: Role.MANAGER };
+
+// Only the delegates the router touches; each test sets the return values it needs
+function mockPrisma({ teamManagerId = MANAGER.id }: { teamManagerId?: string | null } = {}) {
+  const prisma = {
+    league: { findMany: vi.fn().mockResolvedValue([]) },
+    player: {
+      findUnique: vi.fn().mockResolvedValue({ team: teamManagerId ? { managerId: teamManagerId } : null }),
+    },
+    injury: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'injury-1', ...data })),
+    },
+  };
+  return { prisma, client: prisma as unknown as PrismaClient };
+}
+
+async function rejection(promise: Promise<unknown>) {
+  const err = await promise.then(
+    () => null,
+    (e) => e
+  );
+  expect(err).toBeInstanceOf(TRPCError);
+  return err as TRPCError;
+}
+
+describe('reportInjury', () => {
+  const input = { playerId: PLAYER_ID, injuryType: 'Ankle' };
+
+  it('rejects callers without a session before touching the database', async () => {
+    const { prisma, client } = mockPrisma();
+    const caller = appRouter.createCaller({ prisma: client, user: null });
+
+    const err = await rejection(caller.reportInjury(input));
+    expect(err.code).toBe('UNAUTHORIZED');
+    expect(prisma.player.findUnique).not.toHaveBeenCalled();
+    expect(prisma.injury.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects roles other than manager and admin', async () => {
+    const { prisma, client } = mockPrisma();
+    const caller = appRouter.createCaller({ prisma: client, user: { ...MANAGER, role: Role.PLAYER } });
+
+    const err = await rejection(caller.reportInjury(input));
+    expect(err.code).toBe('FORBIDDEN');
+    expect(prisma.injury.create).not.toHaveBeenCalled();
+  });
+
+  it('only accepts the InjurySeverity values', async () => {
+    const { prisma, client } = mockPrisma();
+    const caller = appRouter.createCaller({ prisma: client, user: MANAGER });
+
+    const err = await rejection(caller.reportInjury({ ...input, severity: 'SEVERE' as InjurySeverity }));
+    expect(err.code).toBe('BAD_REQUEST');
+    expect(prisma.injury.create).not.toHaveBeenCalled();
+
+    await caller.reportInjury({ ...input, severity: InjurySeverity.CRITICAL });
+    expect(prisma.injury.create.mock.calls[0][0].data.severity).toBe(InjurySeverity.CRITICAL);
+  });
+
+  it('writes the injury for the signed-in manager with MEDIUM severity by default', async () => {
+    const { prisma, client } = mockPrisma();
+    const caller = appRouter.createCaller({ prisma: client, user: MANAGER });
+
+    await caller.reportInjury({ playerId: PLAYER_ID, injuryType: '  Knee ', notes: '   ' });
+    expect(prisma.injury.create).toHaveBeenCalledWith({
+      data: {
+        playerId: PLAYER_ID,
+        reportedById: MANAGER.id,
+        injuryType: 'Knee',
+        severity: InjurySeverity.MEDIUM,
+        notes: null,
+      },
+    });
+  });
+
+  it("refuses managers reporting for another team's player", async () => {
+    const { prisma, client } = mockPrisma({ teamManagerId: 'manager-2' });
+    const caller = appRouter.createCaller({ prisma: client, user: MANAGER });
+
+    const err = await rejection(caller.reportInjury(input));
+    expect(err.code).toBe('FORBIDDEN');
+    expect(prisma.injury.create).not.toHaveBeenCalled();
+  });
+
+  it('lets admins report for any player', async () => {
+    const { prisma, client } = mockPrisma({ teamManagerId: 'manager-2' });
+    const admin: SessionUser = { id: 'admin-1', email: 'admin@example.com', role: Role.ADMIN };
+    const caller = appRouter.createCaller({ prisma: client, user: admin });
+
+    await caller.reportInjury({ ...input, notes: 'Rolled it in the warm-up' });
+    expect(prisma.injury.create.mock.calls[0][0].data).toMatchObject({
+      reportedById: admin.id,
+      notes: 'Rolled it in the warm-up',
+    });
+  });
+
+  it('refuses head injuries, which need the safeguarding path', async () => {
+    const { prisma, client } = mockPrisma();
+    const caller = appRouter.createCaller({ prisma: client, user: MANAGER });
+
+    const err = await rejection(caller.reportInjury({ ...input, injuryType: ' head ', severity: InjurySeverity.LOW }));
+    expect(err.code).toBe('BAD_REQUEST');
+    expect(prisma.injury.create).not.toHaveBeenCalled();
+  });
+
+  it('returns NOT_FOUND for an unknown player', async () => {
+    const { prisma, client } = mockPrisma();
+    prisma.player.findUnique.mockResolvedValue(null);
+    const caller = appRouter.createCaller({ prisma: client, user: MANAGER });
+
+    const err = await rejection(caller.reportInjury(input));
+    expect(err.code).toBe('NOT_FOUND');
+  });
+});
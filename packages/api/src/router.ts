@@ -1,34 +1,72 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { InjurySeverity, Role } from '@prisma/client';
 import { z } from 'zod';
-import { prisma } from '@sesigo/db'; // alias to packages/db client
+import { isHeadInjury } from '../../injuries/src/safeguarding';
+import type { Context } from './context';
 
-const t = initTRPC.create();
+const t = initTRPC.context<Context>().create();
+
+export const publicProcedure = t.procedure;
+
+// Signed-in users only; narrows ctx.user to non-null
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Sign in required' });
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// Signed-in users with one of the given roles
+export const roleProcedure = (...roles: Role[]) =>
+  protectedProcedure.use(({ ctx, next }) => {
+    if (!roles.includes(ctx.user.role)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `Requires role ${roles.join(' or ')}` });
+    }
+    return next();
+  });
 
 export const appRouter = t.router({
-  getLeagues: t.procedure.query(async () => {
-    return prisma.league.findMany({
+  getLeagues: publicProcedure.query(async ({ ctx }) => {
+    return ctx.prisma.league.findMany({
       include: { teams: true }
     });
   }),
 
-  reportInjury: t.procedure
+  // Managers report injuries for players on their own team; admins for any player.
+  // Head injuries are refused here: they need the safeguarding path with a clinic referral
+  // (POST /api/referrals in the manager app)
+  reportInjury: roleProcedure(Role.MANAGER, Role.ADMIN)
     .input(z.object({
-      playerId: z.string(),
-      description: z.string(),
-      severity: z.string()
+      playerId: z.string().uuid(),
+      injuryType: z.string().trim().min(1),
+      severity: z.nativeEnum(InjurySeverity).default(InjurySeverity.MEDIUM),
+      notes: z.string().trim().optional()
     }))
     .mutation(async ({ input, ctx }) => {
-      // ctx contains user info from auth middleware
-      const injury = await prisma.injury.create({
+      if (isHeadInjury(input.injuryType)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Report head injuries with a clinic referral so they take the safeguarding path'
+        });
+      }
+      const player = await ctx.prisma.player.findUnique({
+        where: { id: input.playerId },
+        select: { team: { select: { managerId: true } } }
+      });
+      if (!player) throw new TRPCError({ code: 'NOT_FOUND', message: 'Player not found' });
+      if (ctx.user.role !== Role.ADMIN && player.team?.managerId !== ctx.user.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: "Managers can only report injuries for their own team" });
+      }
+
+      const injury = await ctx.prisma.injury.create({
         data: {
           playerId: input.playerId,
-          reportedBy: ctx.userId,
-          description: input.description,
-          severity: input.severity
+          reportedById: ctx.user.id,
+          injuryType: input.injuryType,
+          severity: input.severity,
+          notes: input.notes || null
         }
       });
       // optionally enqueue notifications
       return injury;
     })
 });
-export type AppRouter = typeof appRouter;
\ No newline at end of file
+export type AppRouter = typeof appRouter;
@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthService } from './server';
+
+// Only the delegates server.ts touches; $transaction runs the callback on the same object
+const prisma = vi.hoisted(() => {
+  const db = {
+    user: { findUnique: vi.fn(), create: vi.fn() },
+    userInvite: { findFirst: vi.fn(), findUnique: vi.fn(), update: vi.fn(), upsert: vi.fn(), delete: vi.fn() },
+    clinic: { findUnique: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  return db;
+});
+
+vi.mock('../../db/src/prisma', () => ({ prisma }));
+// The Supabase-backed service is never built: every test passes its own AuthService
+vi.mock('@supabase/supabase-js', () => ({ createClient: vi.fn() }));
+
+import { extractAccessToken, getSessionUser, inviteUser, InviteError } from './server';
+
+const IDENTITY = { id: 'auth-1', email: 'Sam@Example.com' };
+
+// Local stand-in for the auth service: knows one token
+function fakeAuthService(overrides: Partial<AuthService> = {}): AuthService {
+  return {
+    getUser: vi.fn(async (token: string) => (token === 'valid-token' ? IDENTITY : null)),
+    inviteUserByEmail: vi.fn(async () => {}),
+    ...overrides,
+  };
+}
+
+const request = (headers: Record<string, string>) => new Request('https://example.com/api', { headers });
+
+const sessionCookie = (token: string) =>
+  'base64-' + Buffer.from(JSON.stringify({ access_token: token })).toString('base64');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  prisma.user.findUnique.mockResolvedValue(null);
+  prisma.userInvite.findFirst.mockResolvedValue(null);
+  prisma.userInvite.findUnique.mockResolvedValue(null);
+});
+
+describe('extractAccessToken', () => {
+  it('prefers the bearer token', () => {
+    expect(extractAccessToken(request({ authorization: 'Bearer abc', cookie: 'sb-access-token=def' }))).toBe('abc');
+  });
+
+  it('reads the Supabase session cookie', () => {
+    const cookie = `sb-proj-auth-token=${encodeURIComponent(sessionCookie('from-cookie'))}`;
+    expect(extractAccessToken(request({ cookie }))).toBe('from-cookie');
+  });
+
+  it('joins a session cookie split into chunks', () => {
+    const value = sessionCookie('a'.repeat(200));
+    const cookie = [
+      `sb-proj-auth-token.1=${encodeURIComponent(value.slice(100))}`,
+      `sb-proj-auth-token.0=${encodeURIComponent(value.slice(0, 100))}`,
+    ].join('; ');
+    expect(extractAccessToken(request({ cookie }))).toBe('a'.repeat(200));
+  });
+
+  it('ignores a session with a missing chunk', () => {
+    const value = sessionCookie('a'.repeat(200));
+    const cookie = `sb-proj-auth-token.1=${encodeURIComponent(value.slice(100))}`;
+    expect(extractAccessToken(request({ cookie }))).toBeNull();
+  });
+});
+
+describe('getSessionUser', () => {
+  it('returns null without a token or for a token the auth service rejects', async () => {
+    const service = fakeAuthService();
+    expect(await getSessionUser(request({}), service)).toBeNull();
+    expect(await getSessionUser(request({ authorization: 'Bearer forged' }), service)).toBeNull();
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('returns the existing user for a bearer token', async () => {
+    const user = { id: 'auth-1', email: 'sam@example.com', role: 'MANAGER' };
+    prisma.user.findUnique.mockResolvedValue(user);
+    const service = fakeAuthService();
+
+    expect(await getSessionUser(request({ authorization: 'Bearer valid-token' }), service)).toEqual(user);
+    expect(service.getUser).toHaveBeenCalledWith('valid-token');
+    expect(prisma.user.findUnique.mock.calls[0][0].where).toEqual({ email: 'sam@example.com' });
+    expect(prisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it('verifies the token from the session cookie', async () => {
+    prisma.user.findUnique.mockResolvedValue({ id: 'auth-1', email: 'sam@example.com', role: 'PLAYER' });
+    const service = fakeAuthService();
+    const cookie = `sb-proj-auth-token=${encodeURIComponent(sessionCookie('valid-token'))}`;
+
+    expect(await getSessionUser(request({ cookie }), service)).toMatchObject({ id: 'auth-1' });
+    expect(service.getUser).toHaveBeenCalledWith('valid-token');
+  });
+
+  it("creates the user on first sign-in with the pending invite's role", async () => {
+    prisma.userInvite.findFirst.mockResolvedValue({ id: 'invite-1', role: 'CLINIC_STAFF', clinicId: 'clinic-1' });
+    prisma.user.create.mockImplementation(async ({ data }) => ({ id: data.id, email: data.email, role: data.role }));
+
+    const user = await getSessionUser(request({ authorization: 'Bearer valid-token' }), fakeAuthService());
+    expect(user).toEqual({ id: 'auth-1', email: 'sam@example.com', role: 'CLINIC_STAFF' });
+    expect(prisma.user.create.mock.calls[0][0].data).toEqual({
+      id: 'auth-1',
+      email: 'sam@example.com',
+      role: 'CLINIC_STAFF',
+      clinicId: 'clinic-1',
+    });
+    expect(prisma.userInvite.update).toHaveBeenCalledWith({
+      where: { id: 'invite-1' },
+      data: { acceptedAt: expect.any(Date) },
+    });
+  });
+
+  it('creates a PLAYER without an invite', async () => {
+    prisma.user.create.mockImplementation(async ({ data }) => ({ id: data.id, email: data.email, role: data.role }));
+
+    const user = await getSessionUser(request({ authorization: 'Bearer valid-token' }), fakeAuthService());
+    expect(user?.role).toBe('PLAYER');
+    expect(prisma.userInvite.update).not.toHaveBeenCalled();
+  });
+
+  it('returns the user created by a concurrent first sign-in', async () => {
+    const created = { id: 'auth-1', email: 'sam@example.com', role: 'MANAGER' };
+    prisma.user.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(created);
+    prisma.user.create.mockRejectedValue(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+    expect(await getSessionUser(request({ authorization: 'Bearer valid-token' }), fakeAuthService())).toEqual(created);
+    expect(prisma.user.findUnique).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('inviteUser', () => {
+  const input = { email: ' New@Example.com ', role: 'MANAGER' as const, invitedById: 'admin-1' };
+  const failingService = () =>
+    fakeAuthService({
+      inviteUserByEmail: vi.fn(async () => {
+        throw new InviteError('Email rate limit exceeded');
+      }),
+    });
+
+  it('stores the invite and sends the email', async () => {
+    prisma.userInvite.upsert.mockResolvedValue({ id: 'invite-1' });
+    const service = fakeAuthService();
+
+    expect(await inviteUser(input, service)).toEqual({ id: 'invite-1' });
+    expect(service.inviteUserByEmail).toHaveBeenCalledWith('new@example.com', { role: 'MANAGER' });
+  });
+
+  it('deletes a new invite when the email fails', async () => {
+    prisma.userInvite.upsert.mockResolvedValue({ id: 'invite-1' });
+
+    await expect(inviteUser(input, failingService())).rejects.toThrow('Email rate limit exceeded');
+    expect(prisma.userInvite.delete).toHaveBeenCalledWith({ where: { id: 'invite-1' } });
+    expect(prisma.userInvite.update).not.toHaveBeenCalled();
+  });
+
+  it('puts back the refreshed invite when the email fails', async () => {
+    const previous = {
+      id: 'invite-0',
+      role: 'VENDOR',
+      clinicId: null,
+      invitedById: 'admin-0',
+      expiresAt: new Date('2025-01-01T00:00:00Z'),
+      acceptedAt: null,
+    };
+    prisma.userInvite.findUnique.mockResolvedValue(previous);
+    prisma.userInvite.upsert.mockResolvedValue({ ...previous, role: 'MANAGER' });
+
+    await expect(inviteUser(input, failingService())).rejects.toThrow(InviteError);
+    expect(prisma.userInvite.update).toHaveBeenCalledWith({
+      where: { id: 'invite-0' },
+      data: {
+        role: 'VENDOR',
+        clinicId: null,
+        invitedById: 'admin-0',
+        expiresAt: previous.expiresAt,
+        acceptedAt: null,
+      },
+    });
+    expect(prisma.userInvite.delete).not.toHaveBeenCalled();
+  });
+
+  it('refuses an email that already has a user', async () => {
+    prisma.user.findUnique.mockResolvedValue({ id: 'user-1' });
+    const service = fakeAuthService();
+
+    await expect(inviteUser(input, service)).rejects.toThrow('A user with this email already exists');
+    expect(prisma.userInvite.upsert).not.toHaveBeenCalled();
+    expect(service.inviteUserByEmail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Role } from '@prisma/client';
+import { prisma } from '../../db/src/prisma';
+
+/**
+ * Server-side auth: verify Supabase access tokens and link them to our `User` rows.
+ *
+ * - The token comes from `Authorization: Bearer <token>`, the `sb-access-token` cookie or
+ *   Supabase's `sb-<project>-auth-token` session cookie (whole or split into `.0`, `.1`, … chunks).
+ * - The app user is matched by email (lower-cased); a first sign-in creates it, with the role
+ *   of a pending invite or PLAYER otherwise.
+ * - Everything that talks to Supabase goes through an `AuthService`, so tests can pass a
+ *   stand-in object or point SUPABASE_URL at a local auth server.
+ */
+
+export type SessionUser = { id: string; email: string; role: Role };
+
+export type AuthIdentity = { id: string; email: string };
+
+export interface AuthService {
+  // Returns the identity for a valid access token, null otherwise
+  getUser(accessToken: string): Promise<AuthIdentity | null>;
+  // Sends the invite email; metadata is stored on the auth user
+  inviteUserByEmail(email: string, metadata: Record<string, unknown>): Promise<void>;
+}
+
+export class InviteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InviteError';
+  }
+}
+
+// Roles an admin can hand out by invite
+export const INVITABLE_ROLES: Role[] = ['MANAGER', 'VENDOR', 'CLINIC_STAFF'];
+export const INVITE_TTL_DAYS = 14;
+
+let defaultService: AuthService | null = null;
+
+/**
+ * Supabase-backed AuthService using the service-role key (server only).
+ */
+export function supabaseAuthService(
+  url = process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+): AuthService {
+  const client = createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  return {
+    async getUser(accessToken) {
+      const { data, error } = await client.auth.getUser(accessToken);
+      if (error || !data.user?.email) return null;
+      return { id: data.user.id, email: data.user.email };
+    },
+    async inviteUserByEmail(email, metadata) {
+      const { error } = await client.auth.admin.inviteUserByEmail(email, { data: metadata });
+      if (error) throw new InviteError(error.message);
+    },
+  };
+}
+
+function authService(service?: AuthService) {
+  if (service) return service;
+  defaultService ??= supabaseAuthService();
+  return defaultService;
+}
+
+/**
+ * Read the access token from the Authorization header or the session cookies.
+ */
+export function extractAccessToken(req: Request): string | null {
+  const header = req.headers.get('authorization') ?? '';
+  if (header.startsWith('Bearer ')) return header.slice('Bearer '.length).trim() || null;
+
+  const cookies = new Map(
+    (req.headers.get('cookie') ?? '')
+      .split(';')
+      .map((c) => c.trim())
+      .filter(Boolean)
+      .map((c) => {
+        const i = c.indexOf('=');
+        return [c.slice(0, i), decodeURIComponent(c.slice(i + 1))] as [string, string];
+      })
+  );
+
+  const plain = cookies.get('sb-access-token');
+  if (plain) return plain;
+
+  // Supabase session cookie: JSON (optionally "base64-" prefixed) with access_token,
+  // or the older [access_token, refresh_token] array
+  for (const value of sessionCookies(cookies)) {
+    try {
+      const json = value.startsWith('base64-') ? Buffer.from(value.slice(7), 'base64').toString('utf8') : value;
+      const session = JSON.parse(json);
+      const token = Array.isArray(session) ? session[0] : session?.access_token;
+      if (typeof token === 'string' && token) return token;
+    } catch {
+      // not a session cookie we understand
+    }
+  }
+  return null;
+}
+
+/**
+ * Values of the Supabase session cookies. Large sessions are split over `sb-<project>-auth-token.0`,
+ * `.1`, …; those chunks are joined back in order.
+ */
+function sessionCookies(cookies: Map<string, string>): string[] {
+  const sessions = new Map<string, { whole?: string; chunks: (string | undefined)[] }>();
+  for (const [name, value] of cookies) {
+    const match = /^(sb-.+-auth-token)(?:\.(\d+))?$/.exec(name);
+    if (!match) continue;
+    const session = sessions.get(match[1]) ?? { chunks: [] };
+    if (match[2] === undefined) session.whole = value;
+    else session.chunks[Number(match[2])] = value;
+    sessions.set(match[1], session);
+  }
+
+  const values: string[] = [];
+  for (const { whole, chunks } of sessions.values()) {
+    if (whole !== undefined) values.push(whole);
+    // A missing chunk means a partial session: skip it rather than parse half a token
+    else if (chunks.length > 0 && !chunks.includes(undefined)) values.push(chunks.join(''));
+  }
+  return values;
+}
+
+/**
+ * Verify the request's access token and return the matching app user, creating it on first
+ * sign-in. Returns null when there is no valid session.
+ */
+export async function getSessionUser(req: Request, service?: AuthService): Promise<SessionUser | null> {
+  const token = extractAccessToken(req);
+  if (!token) return null;
+
+  const identity = await authService(service).getUser(token);
+  if (!identity) return null;
+
+  return provisionUser(identity);
+}
+
+/**
+ * Load the app user for a verified identity, or create it (applying a pending invite's role).
+ */
+export async function provisionUser(identity: AuthIdentity): Promise<SessionUser> {
+  const email = identity.email.trim().toLowerCase();
+  const select = { id: true, email: true, role: true } as const;
+
+  const existing = await prisma.user.findUnique({ where: { email }, select });
+  if (existing) return existing;
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const invite = await tx.userInvite.findFirst({
+        where: { email, acceptedAt: null, expiresAt: { gt: new Date() } },
+      });
+      if (invite) await tx.userInvite.update({ where: { id: invite.id }, data: { acceptedAt: new Date() } });
+
+      // Keep the Supabase id as our id so both systems agree on who this is
+      return tx.user.create({
+        data: { id: identity.id, email, role: invite?.role ?? 'PLAYER', clinicId: invite?.clinicId ?? null },
+        select,
+      });
+    });
+  } catch (err: any) {
+    // Concurrent first requests of the same user: the other one created it
+    if (err?.code !== 'P2002') throw err;
+    const created = await prisma.user.findUnique({ where: { email }, select });
+    if (!created) throw err;
+    return created;
+  }
+}
+
+/**
+ * Invite someone by email with a preassigned role. Re-inviting a pending email refreshes
+ * the role and expiry. CLINIC_STAFF invites name the clinic the person will work for.
+ */
+export async function inviteUser(
+  input: { email: string; role: Role; invitedById: string; clinicId?: string | null },
+  service?: AuthService
+) {
+  const email = input.email.trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new InviteError('Invalid email');
+  if (!INVITABLE_ROLES.includes(input.role)) {
+    throw new InviteError(`Invites can only assign ${INVITABLE_ROLES.join(' or ')}`);
+  }
+
+  const clinicId = input.role === 'CLINIC_STAFF' ? input.clinicId ?? null : null;
+  if (input.role === 'CLINIC_STAFF') {
+    if (!clinicId) throw new InviteError('Clinic staff invites need a clinicId');
+    const clinic = await prisma.clinic.findUnique({ where: { id: clinicId }, select: { id: true } });
+    if (!clinic) throw new InviteError('Clinic not found');
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+  if (existing) throw new InviteError('A user with this email already exists');
+
+  const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+  const previous = await prisma.userInvite.findUnique({ where: { email } });
+  const invite = await prisma.userInvite.upsert({
+    where: { email },
+    create: { email, role: input.role, clinicId, invitedById: input.invitedById, expiresAt },
+    update: { role: input.role, clinicId, invitedById: input.invitedById, expiresAt, acceptedAt: null },
+  });
+
+  try {
+    await authService(service).inviteUserByEmail(email, { role: input.role });
+  } catch (err) {
+    // The email never went out: drop the new invite, or put back the one it refreshed
+    if (previous) {
+      await prisma.userInvite.update({
+        where: { id: previous.id },
+        data: {
+          role: previous.role,
+          clinicId: previous.clinicId,
+          invitedById: previous.invitedById,
+          expiresAt: previous.expiresAt,
+          acceptedAt: previous.acceptedAt,
+        },
+      });
+    } else {
+      await prisma.userInvite.delete({ where: { id: invite.id } });
+    }
+    throw err;
+  }
+  return invite;
+}
@@ -0,0 +1,35 @@
+// Compare the database at DATABASE_URL with schema.prisma; prints every mismatch and exits 1 on drift.
+// Usage: pnpm db:drift [--json]
+//
+// Migrations: schema.prisma is the source of truth. After changing it, write the next sql/NNN_*.sql with
+//   pnpm db:migration > sql/NNN_name.sql
+// (prisma migrate diff from the live database to schema.prisma), review it, apply it, then run db:drift.
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { diffSchema, expectedSchema, readDatabaseSchema } from './drift';
+
+async function main() {
+  const expected = expectedSchema(Prisma.dmmf.datamodel);
+  const actual = await readDatabaseSchema(prisma);
+  const issues = diffSchema(expected, actual);
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(issues, null, 2));
+  } else if (issues.length === 0) {
+    console.log('No drift: the database matches schema.prisma');
+  } else {
+    for (const issue of issues) console.log(`${issue.kind.padEnd(20)} ${issue.message}`);
+    console.log(`\n${issues.length} mismatch${issues.length === 1 ? '' : 'es'} between the database and schema.prisma`);
+  }
+  return issues.length === 0 ? 0 : 1;
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 2;
+  })
+  .finally(() => prisma.$disconnect());
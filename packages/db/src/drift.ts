@@ -0,0 +1,332 @@
+// Schema drift: compare the live Postgres schema with the Prisma models in schema.prisma.
+// - expectedSchema() reads the models from the Prisma DMMF (table/column names come from @@map/@map)
+// - readDatabaseSchema() reads tables, columns, enum types and foreign keys from the catalog
+// - diffSchema() lists every table, column, type, nullability, enum and relation mismatch
+// Run it with `pnpm db:drift` (packages/db/src/checkDrift.ts).
+import type { PrismaClient } from '@prisma/client';
+
+// Minimal view of Prisma.dmmf.datamodel, so the diff does not depend on the client version
+export type DmmfField = {
+  name: string;
+  dbName?: string | null;
+  kind: string; // 'scalar' | 'enum' | 'object' | 'unsupported'
+  type: string;
+  isList: boolean;
+  isRequired: boolean;
+  relationFromFields?: ReadonlyArray<string>;
+  relationToFields?: ReadonlyArray<string>;
+  relationOnDelete?: string;
+};
+
+export type DmmfDatamodel = {
+  models: ReadonlyArray<{ name: string; dbName: string | null; fields: ReadonlyArray<DmmfField> }>;
+  enums: ReadonlyArray<{ name: string; dbName?: string | null; values: ReadonlyArray<{ name: string; dbName?: string | null }> }>;
+};
+
+export type ColumnShape = {
+  type: string; // Prisma scalar type, or the Postgres enum type name for enum columns
+  isEnum: boolean;
+  isList: boolean;
+  nullable: boolean;
+};
+
+export type RelationShape = {
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete: OnDelete;
+};
+
+export type OnDelete = 'Cascade' | 'SetNull' | 'Restrict' | 'NoAction' | 'SetDefault';
+
+export type ExpectedSchema = {
+  tables: Record<string, { model: string; columns: Record<string, ColumnShape & { field: string }> }>;
+  enums: Record<string, string[]>;
+  relations: RelationShape[];
+};
+
+export type DatabaseSchema = {
+  tables: Record<string, Record<string, { udtName: string; isArray: boolean; nullable: boolean }>>;
+  enums: Record<string, string[]>;
+  relations: Array<RelationShape & { name: string }>;
+};
+
+export type DriftKind =
+  | 'MISSING_TABLE'
+  | 'EXTRA_TABLE'
+  | 'MISSING_COLUMN'
+  | 'EXTRA_COLUMN'
+  | 'TYPE_MISMATCH'
+  | 'NULLABILITY_MISMATCH'
+  | 'MISSING_ENUM'
+  | 'EXTRA_ENUM'
+  | 'ENUM_VALUES_MISMATCH'
+  | 'MISSING_RELATION'
+  | 'EXTRA_RELATION'
+  | 'ON_DELETE_MISMATCH';
+
+export type DriftIssue = {
+  kind: DriftKind;
+  table?: string;
+  column?: string;
+  message: string;
+};
+
+// Tables the database has but schema.prisma never models
+export const IGNORED_TABLES = ['_prisma_migrations'];
+
+// Postgres udt names each Prisma scalar may be stored as (@db.* native types are not in the DMMF)
+const SCALAR_UDT_NAMES: Record<string, string[]> = {
+  String: ['text', 'varchar', 'bpchar', 'uuid', 'citext'],
+  Int: ['int4', 'int2'],
+  BigInt: ['int8'],
+  Float: ['float8', 'float4'],
+  Decimal: ['numeric'],
+  Boolean: ['bool'],
+  DateTime: ['timestamptz', 'timestamp', 'date', 'time', 'timetz'],
+  Json: ['jsonb', 'json'],
+  Bytes: ['bytea'],
+};
+
+// pg_constraint.confdeltype
+const PG_ON_DELETE: Record<string, OnDelete> = {
+  a: 'NoAction',
+  r: 'Restrict',
+  c: 'Cascade',
+  n: 'SetNull',
+  d: 'SetDefault',
+};
+
+/**
+ * Build the schema the Prisma models expect from the DMMF.
+ * A relation without an explicit onDelete gets Prisma's default: SetNull when optional, Restrict when required.
+ */
+export function expectedSchema(datamodel: DmmfDatamodel): ExpectedSchema {
+  const enumTypes = new Map(datamodel.enums.map((e) => [e.name, e.dbName ?? e.name]));
+  const tableOf = new Map(datamodel.models.map((m) => [m.name, m.dbName ?? m.name]));
+  const columnOf = (model: string, field: string) => {
+    const f = datamodel.models.find((m) => m.name === model)?.fields.find((x) => x.name === field);
+    return f?.dbName ?? field;
+  };
+
+  const tables: ExpectedSchema['tables'] = {};
+  const relations: RelationShape[] = [];
+
+  for (const model of datamodel.models) {
+    const table = tableOf.get(model.name)!;
+    const columns: ExpectedSchema['tables'][string]['columns'] = {};
+
+    for (const field of model.fields) {
+      if (field.kind === 'scalar' || field.kind === 'enum') {
+        columns[field.dbName ?? field.name] = {
+          field: field.name,
+          type: field.kind === 'enum' ? enumTypes.get(field.type) ?? field.type : field.type,
+          isEnum: field.kind === 'enum',
+          isList: field.isList,
+          nullable: !field.isRequired && !field.isList,
+        };
+      } else if (field.kind === 'object' && field.relationFromFields?.length) {
+        relations.push({
+          table,
+          columns: field.relationFromFields.map((f) => columnOf(model.name, f)),
+          referencedTable: tableOf.get(field.type) ?? field.type,
+          referencedColumns: (field.relationToFields ?? []).map((f) => columnOf(field.type, f)),
+          onDelete: (field.relationOnDelete as OnDelete | undefined) ?? (field.isRequired ? 'Restrict' : 'SetNull'),
+        });
+      }
+    }
+    tables[table] = { model: model.name, columns };
+  }
+
+  const enums: Record<string, string[]> = {};
+  for (const e of datamodel.enums) enums[e.dbName ?? e.name] = e.values.map((v) => v.dbName ?? v.name);
+
+  return { tables, enums, relations };
+}
+
+/**
+ * Read tables, columns, enum types and foreign keys of the current schema (search_path) from Postgres.
+ */
+export async function readDatabaseSchema(db: PrismaClient): Promise<DatabaseSchema> {
+  const columns = await db.$queryRaw<
+    Array<{ table_name: string; column_name: string; udt_name: string; data_type: string; is_nullable: string }>
+  >`
+    SELECT c.table_name, c.column_name, c.udt_name, c.data_type, c.is_nullable
+    FROM information_schema.columns c
+    JOIN information_schema.tables t
+      ON t.table_schema = c.table_schema AND t.table_name = c.table_name AND t.table_type = 'BASE TABLE'
+    WHERE c.table_schema = current_schema()
+    ORDER BY c.table_name, c.ordinal_position
+  `;
+
+  const enumValues = await db.$queryRaw<Array<{ name: string; value: string }>>`
+    SELECT t.typname::text AS name, e.enumlabel::text AS value
+    FROM pg_type t
+    JOIN pg_enum e ON e.enumtypid = t.oid
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    WHERE n.nspname = current_schema()
+    ORDER BY t.typname, e.enumsortorder
+  `;
+
+  const foreignKeys = await db.$queryRaw<
+    Array<{ name: string; table_name: string; columns: string[]; referenced_table: string; referenced_columns: string[]; on_delete: string }>
+  >`
+    SELECT
+      c.conname::text AS name,
+      cl.relname::text AS table_name,
+      ARRAY(
+        SELECT a.attname::text FROM unnest(c.conkey) WITH ORDINALITY AS k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.attnum
+        ORDER BY k.ord
+      ) AS columns,
+      rf.relname::text AS referenced_table,
+      ARRAY(
+        SELECT a.attname::text FROM unnest(c.confkey) WITH ORDINALITY AS k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = c.confrelid AND a.attnum = k.attnum
+        ORDER BY k.ord
+      ) AS referenced_columns,
+      c.confdeltype::text AS on_delete
+    FROM pg_constraint c
+    JOIN pg_class cl ON cl.oid = c.conrelid
+    JOIN pg_class rf ON rf.oid = c.confrelid
+    JOIN pg_namespace n ON n.oid = cl.relnamespace
+    WHERE c.contype = 'f' AND n.nspname = current_schema()
+    ORDER BY cl.relname, c.conname
+  `;
+
+  const tables: DatabaseSchema['tables'] = {};
+  for (const c of columns) {
+    const isArray = c.data_type === 'ARRAY';
+    (tables[c.table_name] ??= {})[c.column_name] = {
+      udtName: isArray ? c.udt_name.replace(/^_/, '') : c.udt_name,
+      isArray,
+      nullable: c.is_nullable === 'YES',
+    };
+  }
+
+  const enums: Record<string, string[]> = {};
+  for (const e of enumValues) (enums[e.name] ??= []).push(e.value);
+
+  return {
+    tables,
+    enums,
+    relations: foreignKeys.map((fk) => ({
+      name: fk.name,
+      table: fk.table_name,
+      columns: fk.columns,
+      referencedTable: fk.referenced_table,
+      referencedColumns: fk.referenced_columns,
+      onDelete: PG_ON_DELETE[fk.on_delete] ?? 'NoAction',
+    })),
+  };
+}
+
+const relationKey = (r: RelationShape) =>
+  `${r.table}(${r.columns.join(', ')}) -> ${r.referencedTable}(${r.referencedColumns.join(', ')})`;
+
+/**
+ * Every difference between what the Prisma models expect and what the database has.
+ * Issues are ordered by table, then enums, then relations; an empty list means no drift.
+ */
+export function diffSchema(
+  expected: ExpectedSchema,
+  actual: DatabaseSchema,
+  ignoredTables: string[] = IGNORED_TABLES
+): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+  const tableNames = [...new Set([...Object.keys(expected.tables), ...Object.keys(actual.tables)])]
+    .filter((t) => !ignoredTables.includes(t))
+    .sort();
+
+  for (const table of tableNames) {
+    const want = expected.tables[table];
+    const have = actual.tables[table];
+    if (!have) {
+      issues.push({ kind: 'MISSING_TABLE', table, message: `Table ${table} (model ${want.model}) does not exist` });
+      continue;
+    }
+    if (!want) {
+      issues.push({ kind: 'EXTRA_TABLE', table, message: `Table ${table} has no Prisma model` });
+      continue;
+    }
+
+    const columnNames = [...new Set([...Object.keys(want.columns), ...Object.keys(have)])].sort();
+    for (const column of columnNames) {
+      const w = want.columns[column];
+      const h = have[column];
+      const at = `${table}.${column}`;
+      if (!h) {
+        issues.push({ kind: 'MISSING_COLUMN', table, column, message: `${at} (${want.model}.${w.field}) does not exist` });
+        continue;
+      }
+      if (!w) {
+        issues.push({ kind: 'EXTRA_COLUMN', table, column, message: `${at} is not mapped by model ${want.model}` });
+        continue;
+      }
+
+      const typeMatches = w.isEnum ? h.udtName === w.type : (SCALAR_UDT_NAMES[w.type] ?? []).includes(h.udtName);
+      if (!typeMatches || h.isArray !== w.isList) {
+        const wanted = `${w.isEnum ? `enum ${w.type}` : w.type}${w.isList ? '[]' : ''}`;
+        issues.push({
+          kind: 'TYPE_MISMATCH',
+          table,
+          column,
+          message: `${at} is ${h.udtName}${h.isArray ? '[]' : ''} but ${want.model}.${w.field} is ${wanted}`,
+        });
+      }
+      if (h.nullable !== w.nullable) {
+        issues.push({
+          kind: 'NULLABILITY_MISMATCH',
+          table,
+          column,
+          message: `${at} is ${h.nullable ? 'nullable' : 'NOT NULL'} but ${want.model}.${w.field} is ${w.nullable ? 'optional' : 'required'}`,
+        });
+      }
+    }
+  }
+
+  const enumNames = [...new Set([...Object.keys(expected.enums), ...Object.keys(actual.enums)])].sort();
+  for (const name of enumNames) {
+    const want = expected.enums[name];
+    const have = actual.enums[name];
+    if (!have) {
+      issues.push({ kind: 'MISSING_ENUM', message: `Enum type ${name} does not exist` });
+    } else if (!want) {
+      issues.push({ kind: 'EXTRA_ENUM', message: `Enum type ${name} has no Prisma enum` });
+    } else {
+      const missing = want.filter((v) => !have.includes(v));
+      const extra = have.filter((v) => !want.includes(v));
+      if (missing.length || extra.length) {
+        const parts = [
+          missing.length ? `missing ${missing.join(', ')}` : null,
+          extra.length ? `unexpected ${extra.join(', ')}` : null,
+        ].filter(Boolean);
+        issues.push({ kind: 'ENUM_VALUES_MISMATCH', message: `Enum type ${name}: ${parts.join('; ')}` });
+      }
+    }
+  }
+
+  const actualRelations = new Map(
+    actual.relations.filter((r) => !ignoredTables.includes(r.table)).map((r) => [relationKey(r), r])
+  );
+  for (const want of expected.relations) {
+    const key = relationKey(want);
+    const have = actualRelations.get(key);
+    actualRelations.delete(key);
+    if (!have) {
+      issues.push({ kind: 'MISSING_RELATION', table: want.table, message: `Foreign key ${key} does not exist` });
+    } else if (have.onDelete !== want.onDelete) {
+      issues.push({
+        kind: 'ON_DELETE_MISMATCH',
+        table: want.table,
+        message: `Foreign key ${have.name} ${key} is ON DELETE ${have.onDelete} but the model says ${want.onDelete}`,
+      });
+    }
+  }
+  for (const [key, have] of actualRelations) {
+    issues.push({ kind: 'EXTRA_RELATION', table: have.table, message: `Foreign key ${have.name} ${key} has no Prisma relation` });
+  }
+
+  return issues;
+}
@@ -1,4 +1,3 @@
-```ts
 // Lightweight Prisma client wrapper used by admin API routes.
 // Ensure packages/db is a workspace package exporting Prisma client in your real repo.
 // Install: pnpm add -w prisma @prisma/client
@@ -0,0 +1,102 @@
+/**
+ * Minimal PDF writer for server-rendered documents (statements, vouchers).
+ *
+ * - Pages are lists of drawing operations in PDF points (origin bottom-left, A4 = 595 x 842).
+ * - Text uses the built-in Helvetica / Helvetica-Bold fonts with WinAnsi encoding; characters
+ *   outside Latin-1 are replaced with "?".
+ * - No dependencies, so it runs in any Node route handler.
+ *
+ * Usage:
+ *  const pdf = renderPdf([layoutLines([{ text: 'Statement', size: 18, bold: true }, { text: 'Line' }])[0]]);
+ */
+
+export const A4 = { width: 595, height: 842 };
+
+export type PdfOp =
+  | { type: 'text'; x: number; y: number; size: number; text: string; bold?: boolean }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill?: boolean };
+
+export type PdfLine = { text: string; size?: number; bold?: boolean; gapBefore?: number };
+
+/**
+ * Flow lines of text top-to-bottom onto as many A4 pages as needed.
+ */
+export function layoutLines(lines: PdfLine[], opts?: { margin?: number; lineHeight?: number }): PdfOp[][] {
+  const margin = opts?.margin ?? 50;
+  const lineHeight = opts?.lineHeight ?? 1.4;
+  const pages: PdfOp[][] = [[]];
+  let y = A4.height - margin;
+
+  for (const line of lines) {
+    const size = line.size ?? 10;
+    const step = size * lineHeight + (line.gapBefore ?? 0);
+    if (y - step < margin) {
+      pages.push([]);
+      y = A4.height - margin;
+    }
+    y -= step;
+    pages[pages.length - 1].push({ type: 'text', x: margin, y, size, text: line.text, bold: line.bold });
+  }
+  return pages;
+}
+
+function escapeText(text: string) {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function num(n: number) {
+  return Number(n.toFixed(2)).toString();
+}
+
+function contentStream(ops: PdfOp[]) {
+  return ops
+    .map((op) =>
+      op.type === 'text'
+        ? `BT /${op.bold ? 'F2' : 'F1'} ${num(op.size)} Tf ${num(op.x)} ${num(op.y)} Td (${escapeText(op.text)}) Tj ET`
+        : `${num(op.x)} ${num(op.y)} ${num(op.width)} ${num(op.height)} re ${op.fill === false ? 'S' : 'f'}`
+    )
+    .join('\n');
+}
+
+/**
+ * Render pages of drawing operations to a PDF file.
+ */
+export function renderPdf(pages: PdfOp[][], opts?: { title?: string }): Buffer {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((ops, i) => {
+    const pageId = pageIds[i];
+    const stream = contentStream(ops);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  const infoId = objects.length;
+  objects[infoId] = `<< /Title (${escapeText(opts?.title ?? '')}) /Producer (Sesigo Hive) >>`;
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, 'latin1');
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+}
@@ -0,0 +1,329 @@
+/**
+ * Minimal QR code encoder for server-rendered documents (e.g. the verification link on vouchers).
+ *
+ * - Byte mode, error correction level M, versions 1-10: up to 213 bytes, enough for a URL with a token.
+ * - Follows ISO/IEC 18004: Reed-Solomon over GF(256), the mask with the lowest penalty is chosen.
+ * - No dependencies; qrOps() draws the symbol as filled rects for pdf.ts.
+ *
+ * Usage:
+ *  const ops = qrOps(encodeQr('https://example.org/verify?token=...'), { x: 415, y: 650, size: 130 });
+ */
+
+import type { PdfOp } from './pdf';
+
+// Per version, level M: [EC codewords per block, group-1 blocks, data codewords per group-1 block, group-2 blocks]
+// Group-2 blocks hold one data codeword more than group-1 blocks.
+const BLOCKS_M: Array<[number, number, number, number]> = [
+  [10, 1, 16, 0],
+  [16, 1, 28, 0],
+  [26, 1, 44, 0],
+  [18, 2, 32, 0],
+  [24, 2, 43, 0],
+  [16, 4, 27, 0],
+  [18, 4, 31, 0],
+  [22, 2, 38, 2],
+  [22, 3, 36, 2],
+  [26, 4, 43, 1],
+];
+
+// Alignment pattern centres per version (version 1 has none)
+const ALIGNMENT: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+];
+
+export const QR_MAX_BYTES = 213;
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const EXP: number[] = new Array(512);
+const LOG: number[] = new Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  x <<= 1;
+  if (x & 0x100) x ^= 0x11d;
+}
+for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+
+function gfMul(a: number, b: number) {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function errorCorrection(data: number[], degree: number) {
+  // Generator polynomial (x - a^0)(x - a^1)...(x - a^(degree-1)), highest term first
+  let gen = [1];
+  for (let i = 0; i < degree; i++) {
+    const next = new Array(gen.length + 1).fill(0);
+    gen.forEach((c, j) => {
+      next[j] ^= c;
+      next[j + 1] ^= gfMul(c, EXP[i]);
+    });
+    gen = next;
+  }
+  const rem: number[] = new Array(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ rem.shift()!;
+    rem.push(0);
+    for (let i = 0; i < degree; i++) rem[i] ^= gfMul(gen[i + 1], factor);
+  }
+  return rem;
+}
+
+function dataCodewords(version: number) {
+  const [, blocks1, size1, blocks2] = BLOCKS_M[version - 1];
+  return blocks1 * size1 + blocks2 * (size1 + 1);
+}
+
+function bitsNeeded(version: number, length: number) {
+  return 4 + (version < 10 ? 8 : 16) + length * 8;
+}
+
+/**
+ * Data plus error correction codewords for `bytes`, interleaved across blocks.
+ */
+function codewords(bytes: Buffer, version: number) {
+  const capacity = dataCodewords(version) * 8;
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4); // byte mode
+  push(bytes.length, version < 10 ? 8 : 16);
+  for (const b of bytes) push(b, 8);
+  push(0, Math.min(4, capacity - bits.length)); // terminator
+  while (bits.length % 8) bits.push(0);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  for (let pad = 0xec; data.length < capacity / 8; pad ^= 0xec ^ 0x11) data.push(pad);
+
+  const [ecLength, blocks1, size1, blocks2] = BLOCKS_M[version - 1];
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (let b = 0; b < blocks1 + blocks2; b++) {
+    const size = b < blocks1 ? size1 : size1 + 1;
+    blocks.push(data.slice(offset, offset + size));
+    offset += size;
+  }
+  const ec = blocks.map((block) => errorCorrection(block, ecLength));
+
+  const out: number[] = [];
+  for (let i = 0; i <= size1; i++) for (const block of blocks) if (i < block.length) out.push(block[i]);
+  for (let i = 0; i < ecLength; i++) for (const block of ec) out.push(block[i]);
+  return out;
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class QrSymbol {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = 17 + version * 4;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    const size = this.size;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    // Finder patterns with their separators
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x < 0 || y < 0 || x >= size || y >= size) continue;
+          const ring = Math.max(Math.abs(dx), Math.abs(dy));
+          this.setFunction(x, y, ring !== 2 && ring !== 4);
+        }
+      }
+    }
+    const centres = ALIGNMENT[this.version - 1];
+    const last = centres.length - 1;
+    centres.forEach((cx, i) =>
+      centres.forEach((cy, j) => {
+        // Skip the three corners taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      })
+    );
+    this.drawFormatBits(0); // reserve; redrawn once the mask is chosen
+    if (this.version >= 7) {
+      let rem = this.version;
+      for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+      const bits = (this.version << 12) | rem;
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1;
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, dark);
+        this.setFunction(b, a, dark);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = mask; // level M is 00
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+    const size = this.size;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i));
+    this.setFunction(8, size - 8, true); // dark module
+  }
+
+  drawCodewords(data: number[]) {
+    const size = this.size;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // skip the vertical timing column
+      const upward = ((right + 1) & 2) === 0;
+      for (let vert = 0; vert < size; vert++) {
+        const y = upward ? size - 1 - vert : vert;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (this.reserved[y][x] || i >= data.length * 8) continue;
+          this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+          i++;
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penalty() {
+    const size = this.size;
+    const m = this.modules;
+    let score = 0;
+    const lines: boolean[][] = [...m, ...m.map((_, x) => m.map((row) => row[x]))];
+
+    for (const line of lines) {
+      // Runs of five or more same-coloured modules
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+          continue;
+        }
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+      // Finder-like 1:1:3:1:1 with four light modules on one side
+      const text = line.map((dark) => (dark ? '1' : '0')).join('');
+      for (const pattern of ['10111010000', '00001011101']) {
+        for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) score += 40;
+      }
+    }
+    // 2x2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const c = m[y][x];
+        if (c === m[y][x + 1] && c === m[y + 1][x] && c === m[y + 1][x + 1]) score += 3;
+      }
+    }
+    // Balance of dark and light modules
+    const dark = m.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    score += Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size)) * 10;
+    return score;
+  }
+}
+
+/**
+ * Encode `text` (UTF-8) as a QR code; returns rows of modules, true = dark.
+ * Throws when the text does not fit in version 10.
+ */
+export function encodeQr(text: string): boolean[][] {
+  const bytes = Buffer.from(text, 'utf8');
+  let version = 1;
+  while (version <= BLOCKS_M.length && bitsNeeded(version, bytes.length) > dataCodewords(version) * 8) version++;
+  if (version > BLOCKS_M.length) throw new Error(`QR content too long (${bytes.length} bytes, max ${QR_MAX_BYTES})`);
+
+  const data = codewords(bytes, version);
+  let best: QrSymbol | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const symbol = new QrSymbol(version);
+    symbol.drawCodewords(data);
+    symbol.applyMask(mask);
+    symbol.drawFormatBits(mask);
+    const penalty = symbol.penalty();
+    if (penalty < bestPenalty) {
+      best = symbol;
+      bestPenalty = penalty;
+    }
+  }
+  return best!.modules;
+}
+
+/**
+ * Draw a QR code as filled rects; (x, y) is the bottom-left corner, size the width of the symbol
+ * without its quiet zone (leave 4 modules of white space around it).
+ */
+export function qrOps(modules: boolean[][], at: { x: number; y: number; size: number }): PdfOp[] {
+  const unit = at.size / modules.length;
+  const ops: PdfOp[] = [];
+  modules.forEach((row, r) => {
+    // One rect per horizontal run of dark modules; row 0 is the top
+    for (let c = 0; c < row.length; c++) {
+      if (!row[c]) continue;
+      let end = c;
+      while (end + 1 < row.length && row[end + 1]) end++;
+      ops.push({
+        type: 'rect',
+        x: at.x + c * unit,
+        y: at.y + at.size - (r + 1) * unit,
+        width: (end - c + 1) * unit,
+        height: unit,
+      });
+      c = end;
+    }
+  });
+  return ops;
+}
@@ -0,0 +1,124 @@
+/**
+ * Database side of clinicReferrals.ts: apply a clinic portal action to the injury, add the status
+ * change to the referral history and notify the manager who reported the injury.
+ *
+ * Takes the transaction client so the history entry and notification commit with the change.
+ */
+
+import { Prisma } from '@prisma/client';
+import { notifyUsers } from '../../notifications/src/notifications';
+import {
+  assertClinicAction,
+  ClinicActionInput,
+  ClinicReferralError,
+  statusAfterClinicAction,
+} from './clinicReferrals';
+
+type Db = Prisma.TransactionClient;
+
+const when = (d: Date) => d.toISOString().slice(0, 16).replace('T', ' ');
+
+// Notification kind and title wording per action
+const NOTIFICATIONS = {
+  ACCEPT: { kind: 'REFERRAL_ACCEPTED', title: 'accepted' },
+  DECLINE: { kind: 'REFERRAL_DECLINED', title: 'declined' },
+  SCHEDULE: { kind: 'REFERRAL_APPOINTMENT', title: 'appointment booked' },
+  COMPLETE: { kind: 'REFERRAL_COMPLETED', title: 'completed' },
+} as const;
+
+/**
+ * Apply `input` to a referral sent to the staff member's clinic.
+ */
+export async function applyClinicAction(
+  db: Db,
+  injuryId: string,
+  input: ClinicActionInput,
+  actor: { id: string; clinicId: string }
+) {
+  const injury = await db.injury.findFirst({
+    where: { id: injuryId, clinicId: actor.clinicId },
+    select: {
+      referralStatus: true,
+      referralDate: true,
+      clinicDecision: true,
+      clinicOutcomeNotes: true,
+      reportedById: true,
+      clinic: { select: { name: true } },
+      player: { select: { firstName: true, lastName: true } },
+    },
+  });
+  if (!injury) throw new ClinicReferralError('Referral not found');
+  assertClinicAction(injury, input);
+
+  const now = new Date();
+  const from = injury.referralStatus;
+  const to = statusAfterClinicAction(from, input.action);
+
+  let data: Prisma.InjuryUpdateManyMutationInput;
+  let note: string;
+  let body: string;
+  const player = `${injury.player.firstName} ${injury.player.lastName}`;
+  const clinic = injury.clinic?.name ?? 'The clinic';
+  if (input.action === 'ACCEPT') {
+    data = {
+      referralStatus: to,
+      referralDate: injury.referralDate ?? now,
+      clinicDecision: 'ACCEPTED',
+      clinicDecidedAt: now,
+      ...(input.appointmentAt ? { appointmentAt: input.appointmentAt } : {}),
+    };
+    note = `Accepted by ${clinic}`;
+    body = `${clinic} accepted the referral for ${player}.`;
+    if (input.appointmentAt) body += ` Appointment: ${when(input.appointmentAt)} UTC.`;
+  } else if (input.action === 'DECLINE') {
+    data = {
+      referralStatus: to,
+      clinicDecision: 'DECLINED',
+      clinicDecidedAt: now,
+      clinicDeclineReason: input.reason,
+      appointmentAt: null,
+    };
+    note = `Declined by ${clinic}: ${input.reason}`;
+    body = `${clinic} declined the referral for ${player}: ${input.reason}. Refer the player to another clinic.`;
+  } else if (input.action === 'SCHEDULE') {
+    data = {
+      appointmentAt: input.appointmentAt,
+      ...(input.outcomeNotes ? { clinicOutcomeNotes: input.outcomeNotes } : {}),
+    };
+    note = `Appointment ${when(input.appointmentAt)} UTC`;
+    body = `${clinic} booked an appointment for ${player} on ${when(input.appointmentAt)} UTC.`;
+  } else {
+    data = {
+      referralStatus: to,
+      ...(input.outcomeNotes ? { clinicOutcomeNotes: input.outcomeNotes } : {}),
+    };
+    note = `Completed by ${clinic}`;
+    body = `${clinic} completed the referral for ${player}. Outcome: ${input.outcomeNotes ?? injury.clinicOutcomeNotes}`;
+  }
+
+  // Guard on the state checked above so two staff members cannot act on the same referral at once
+  const { count } = await db.injury.updateMany({
+    where: {
+      id: injuryId,
+      clinicId: actor.clinicId,
+      referralStatus: from,
+      clinicDecision: injury.clinicDecision,
+    },
+    data,
+  });
+  if (count === 0) throw new ClinicReferralError('Referral was changed by someone else; reload and try again.');
+
+  if (to !== from) {
+    await db.referralEvent.create({
+      data: { injuryId, fromStatus: from, toStatus: to, changedById: actor.id, note },
+    });
+  }
+  if (injury.reportedById) {
+    await notifyUsers(db, [injury.reportedById], {
+      kind: NOTIFICATIONS[input.action].kind,
+      title: `Referral for ${player} ${NOTIFICATIONS[input.action].title}`,
+      body,
+      injuryId,
+    });
+  }
+}
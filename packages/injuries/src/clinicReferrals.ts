@@ -0,0 +1,113 @@
+/**
+ * What clinic staff can do with a referral from the clinic portal.
+ *
+ * - ACCEPT / DECLINE answer a new referral. Accepting moves a PENDING referral to REFERRED;
+ *   declining sends a REFERRED one back to PENDING so the manager can pick another clinic.
+ * - SCHEDULE records (or moves) the appointment, optionally with outcome notes so far.
+ * - COMPLETE closes the referral (REFERRED → COMPLETED) with the outcome notes.
+ * Only accepted referrals can be scheduled or completed; completed ones cannot change.
+ */
+
+import type { ReferralStatus } from './referrals';
+
+export type ClinicAction = 'ACCEPT' | 'DECLINE' | 'SCHEDULE' | 'COMPLETE';
+export const CLINIC_ACTIONS: ClinicAction[] = ['ACCEPT', 'DECLINE', 'SCHEDULE', 'COMPLETE'];
+
+export type ClinicDecision = 'ACCEPTED' | 'DECLINED';
+
+// Portal views: new referrals, accepted ones in progress, and finished (completed or declined)
+export type ClinicReferralView = 'incoming' | 'active' | 'closed' | 'all';
+export const CLINIC_REFERRAL_VIEWS: ClinicReferralView[] = ['incoming', 'active', 'closed', 'all'];
+
+export const MAX_OUTCOME_NOTES = 4000;
+
+export class ClinicReferralError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClinicReferralError';
+  }
+}
+
+export type ClinicActionInput =
+  | { action: 'ACCEPT'; appointmentAt: Date | null }
+  | { action: 'DECLINE'; reason: string }
+  | { action: 'SCHEDULE'; appointmentAt: Date; outcomeNotes: string | null }
+  | { action: 'COMPLETE'; outcomeNotes: string | null };
+
+export type ClinicReferralState = {
+  referralStatus: ReferralStatus;
+  clinicDecision: ClinicDecision | null;
+  clinicOutcomeNotes: string | null;
+};
+
+function optionalDate(value: unknown, field: string): { date: Date | null } | { error: string } {
+  if (value === undefined || value === null || value === '') return { date: null };
+  const date = new Date(value as string);
+  if (Number.isNaN(date.getTime())) return { error: `${field} must be a date and time` };
+  return { date };
+}
+
+function optionalNotes(value: unknown): { notes: string | null } | { error: string } {
+  const notes = value === undefined || value === null ? '' : String(value).trim();
+  if (notes.length > MAX_OUTCOME_NOTES) return { error: `outcomeNotes can be at most ${MAX_OUTCOME_NOTES} characters` };
+  return { notes: notes || null };
+}
+
+/**
+ * Validate a portal request body { action, appointmentAt?, reason?, outcomeNotes? }.
+ */
+export function parseClinicAction(body: any): { data: ClinicActionInput } | { error: string } {
+  const action = body?.action as ClinicAction;
+  if (!CLINIC_ACTIONS.includes(action)) return { error: `action must be one of ${CLINIC_ACTIONS.join(', ')}` };
+
+  const when = optionalDate(body.appointmentAt, 'appointmentAt');
+  if ('error' in when) return when;
+  const notes = optionalNotes(body.outcomeNotes);
+  if ('error' in notes) return notes;
+
+  switch (action) {
+    case 'ACCEPT':
+      return { data: { action, appointmentAt: when.date } };
+    case 'DECLINE': {
+      const reason = String(body.reason || '').trim();
+      if (!reason) return { error: 'A reason is required to decline a referral' };
+      return { data: { action, reason } };
+    }
+    case 'SCHEDULE':
+      if (!when.date) return { error: 'appointmentAt is required' };
+      return { data: { action, appointmentAt: when.date, outcomeNotes: notes.notes } };
+    case 'COMPLETE':
+      return { data: { action, outcomeNotes: notes.notes } };
+  }
+}
+
+/**
+ * Throws ClinicReferralError unless the action is allowed in the referral's current state.
+ */
+export function assertClinicAction(state: ClinicReferralState, input: ClinicActionInput) {
+  if (state.referralStatus === 'COMPLETED') throw new ClinicReferralError('This referral is already completed.');
+  if (state.referralStatus === 'NONE') throw new ClinicReferralError('This injury has no open referral.');
+
+  if (input.action === 'ACCEPT' || input.action === 'DECLINE') {
+    if (state.clinicDecision) {
+      throw new ClinicReferralError(`This referral was already ${state.clinicDecision.toLowerCase()}.`);
+    }
+    return;
+  }
+  if (state.clinicDecision !== 'ACCEPTED') {
+    throw new ClinicReferralError('Accept the referral before scheduling or completing it.');
+  }
+  if (input.action === 'COMPLETE' && !input.outcomeNotes && !state.clinicOutcomeNotes) {
+    throw new ClinicReferralError('Record outcome notes to complete the referral.');
+  }
+}
+
+/**
+ * Referral status after the action (unchanged for SCHEDULE).
+ */
+export function statusAfterClinicAction(from: ReferralStatus, action: ClinicAction): ReferralStatus {
+  if (action === 'ACCEPT') return 'REFERRED';
+  if (action === 'DECLINE') return 'PENDING';
+  if (action === 'COMPLETE') return 'COMPLETED';
+  return from;
+}
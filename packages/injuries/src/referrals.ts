@@ -0,0 +1,33 @@
+/**
+ * Clinic referral lifecycle for reported injuries.
+ *
+ * - Status moves forward one step at a time: NONE → PENDING → REFERRED → COMPLETED. Reporting opens
+ *   the referral; after that only the clinic moves it (see clinicReferrals.ts).
+ * - References look like "SH-20250301-7KQ2M9XD": a date plus 8 random characters from an
+ *   alphabet without look-alikes (0/O, 1/I/L). The caller retries on a unique-constraint clash.
+ */
+
+import { randomInt } from 'crypto';
+
+export type ReferralStatus = 'NONE' | 'PENDING' | 'REFERRED' | 'COMPLETED';
+export type InjurySeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export const REFERRAL_STATUSES: ReferralStatus[] = ['NONE', 'PENDING', 'REFERRED', 'COMPLETED'];
+export const INJURY_SEVERITIES: InjurySeverity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+// Referrals that still need action
+export const OPEN_REFERRAL_STATUSES: ReferralStatus[] = ['PENDING', 'REFERRED'];
+
+const REFERENCE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+
+/**
+ * Generate a referral reference; 31^8 (~8.5e11) combinations per day.
+ *
+ * @param now - date embedded in the reference (defaults to today)
+ */
+export function generateReferralReference(now = new Date()) {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+  let suffix = '';
+  for (let i = 0; i < 8; i++) suffix += REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)];
+  return `SH-${date}-${suffix}`;
+}
@@ -0,0 +1,151 @@
+/**
+ * Return to play after an injury, and whether a player is available on a given date.
+ *
+ * - Stages move forward one step at a time: REST → LIGHT_TRAINING → FULL_TRAINING → CLEARED.
+ *   A setback moves the injury back to any earlier stage; CLEARED is final (report a new injury instead).
+ * - HIGH and CRITICAL injuries can only be CLEARED with a sign-off: by staff of the clinic that accepted
+ *   the referral (clinic portal, source CLINIC), or by a medic whose name an admin records (admin portal,
+ *   source MEDIC) — e.g. when the injury has no clinic. Managers clear the rest.
+ * - A player is unavailable on a date while an injury reported on or before it is not yet cleared.
+ *   Head injuries also block until their stand-down ends and a clearance document is recorded
+ *   (see safeguarding.ts); a manager cannot pick the player over those.
+ */
+
+import type { InjurySeverity } from './referrals';
+import type { SafeguardingFacts } from './safeguarding';
+
+export type ReturnToPlayStage = 'REST' | 'LIGHT_TRAINING' | 'FULL_TRAINING' | 'CLEARED';
+export type ClearanceSource = 'CLINIC' | 'MEDIC';
+
+export const RETURN_TO_PLAY_STAGES: ReturnToPlayStage[] = ['REST', 'LIGHT_TRAINING', 'FULL_TRAINING', 'CLEARED'];
+export const CLEARANCE_SOURCES: ClearanceSource[] = ['CLINIC', 'MEDIC'];
+
+const SIGN_OFF_SEVERITIES: InjurySeverity[] = ['HIGH', 'CRITICAL'];
+
+export type SignOff = { name: string; source: ClearanceSource };
+
+export class ReturnToPlayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReturnToPlayError';
+  }
+}
+
+export function requiresClearanceSignOff(severity: InjurySeverity) {
+  return SIGN_OFF_SEVERITIES.includes(severity);
+}
+
+export type StageChangeInput = {
+  stage?: ReturnToPlayStage;
+  expectedReturnDate?: Date | null;
+  note: string | null;
+};
+
+/**
+ * Validate a request body { stage?, expectedReturnDate?, note? }; at least one of stage and
+ * expectedReturnDate (a date, or null to clear it) is required.
+ */
+export function parseStageChange(body: any): { data: StageChangeInput } | { error: string } {
+  const stage = body?.stage as ReturnToPlayStage | undefined;
+  if (stage !== undefined && !RETURN_TO_PLAY_STAGES.includes(stage)) {
+    return { error: `stage must be one of ${RETURN_TO_PLAY_STAGES.join(', ')}` };
+  }
+
+  let expectedReturnDate: Date | null | undefined;
+  if (body?.expectedReturnDate !== undefined) {
+    expectedReturnDate = body.expectedReturnDate ? new Date(body.expectedReturnDate) : null;
+    if (expectedReturnDate && Number.isNaN(expectedReturnDate.getTime())) return { error: 'Invalid expectedReturnDate' };
+  }
+  if (stage === undefined && expectedReturnDate === undefined) {
+    return { error: 'Nothing to change: send stage and/or expectedReturnDate' };
+  }
+  return { data: { stage, expectedReturnDate, note: body.note ? String(body.note) : null } };
+}
+
+/**
+ * Throws ReturnToPlayError unless the injury may move from `from` to `to`.
+ */
+export function assertStageTransition(
+  from: ReturnToPlayStage,
+  to: ReturnToPlayStage,
+  severity: InjurySeverity,
+  signOff: SignOff | null
+) {
+  if (from === 'CLEARED') throw new ReturnToPlayError('The player is already cleared; report a new injury for a setback.');
+
+  const step = RETURN_TO_PLAY_STAGES.indexOf(to) - RETURN_TO_PLAY_STAGES.indexOf(from);
+  if (step === 0) throw new ReturnToPlayError(`The injury is already at ${from}.`);
+  if (step > 1) {
+    const next = RETURN_TO_PLAY_STAGES[RETURN_TO_PLAY_STAGES.indexOf(from) + 1];
+    throw new ReturnToPlayError(`An injury at ${from} can only move forward to ${next}, not ${to}.`);
+  }
+  if (to === 'CLEARED' && requiresClearanceSignOff(severity) && !signOff) {
+    throw new ReturnToPlayError(`A ${severity} injury can only be cleared by the clinic or with a medic's sign-off recorded by an admin.`);
+  }
+}
+
+export type AvailabilityInjury = {
+  id: string;
+  injuryType: string;
+  severity: InjurySeverity;
+  returnToPlayStage: ReturnToPlayStage;
+  expectedReturnDate: Date | null;
+  clearedAt: Date | null;
+  createdAt: Date;
+} & SafeguardingFacts;
+
+export type AvailabilityBlocker = {
+  kind: 'INJURY' | 'STAND_DOWN' | 'CLEARANCE_DOCUMENT';
+  injuryId: string;
+  injuryType: string;
+  stage: ReturnToPlayStage;
+  expectedReturnDate: Date | null;
+  // false for safeguarding blockers: only an admin override lifts them
+  overridable: boolean;
+};
+
+export type Availability = {
+  available: boolean;
+  blockers: AvailabilityBlocker[];
+};
+
+/**
+ * Whether a player with these injuries can play on `on` (e.g. a fixture's kick-off).
+ */
+export function playerAvailability(injuries: AvailabilityInjury[], on: Date): Availability {
+  const blockers: AvailabilityBlocker[] = [];
+  for (const i of injuries) {
+    if (i.createdAt > on) continue;
+    const blocker = (kind: AvailabilityBlocker['kind'], expectedReturnDate = i.expectedReturnDate) =>
+      blockers.push({
+        kind,
+        injuryId: i.id,
+        injuryType: i.injuryType,
+        stage: i.returnToPlayStage,
+        expectedReturnDate,
+        overridable: !i.safeguarding,
+      });
+
+    if (i.clearedAt === null || i.clearedAt > on) blocker('INJURY');
+    if (!i.safeguarding) continue;
+    if (i.standDownUntil && i.standDownUntil > on) blocker('STAND_DOWN', i.standDownUntil);
+    const documented = [i.clearanceDocumentRecordedAt, i.clearanceWaivedAt].some((at) => at !== null && at <= on);
+    if (!documented) blocker('CLEARANCE_DOCUMENT');
+  }
+  return { available: blockers.length === 0, blockers };
+}
+
+/**
+ * One line per blocker, e.g. "Ankle injury (LIGHT_TRAINING, expected back 2025-03-14)".
+ */
+export function describeBlockers(blockers: AvailabilityBlocker[]) {
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+  return blockers
+    .map((b) => {
+      if (b.kind === 'STAND_DOWN') return `${b.injuryType} injury stand-down until ${day(b.expectedReturnDate!)}`;
+      if (b.kind === 'CLEARANCE_DOCUMENT') return `${b.injuryType} injury awaiting clearance document`;
+      const back = b.expectedReturnDate ? `, expected back ${day(b.expectedReturnDate)}` : '';
+      return `${b.injuryType} injury (${b.stage}${back})`;
+    })
+    .join('; ');
+}
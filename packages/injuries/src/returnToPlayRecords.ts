@@ -0,0 +1,85 @@
+/**
+ * Database side of returnToPlay.ts: apply a stage change for a manager, a clinic or an admin and add
+ * it to the return-to-play history.
+ *
+ * Takes the transaction client so the history entry and notification commit with the change.
+ */
+
+import { Prisma } from '@prisma/client';
+import { notifyUsers } from '../../notifications/src/notifications';
+import type { InjurySeverity } from './referrals';
+import { assertStageTransition, ReturnToPlayError, ReturnToPlayStage, SignOff, StageChangeInput } from './returnToPlay';
+import { assertSafeguardingCleared } from './safeguarding';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Apply `change` to the injury. `signOff` is set for clinic staff and for medic sign-offs recorded by
+ * an admin (HIGH and CRITICAL injuries cannot be cleared without it); such a clearance is reported to
+ * the manager.
+ *
+ * Throws ReturnToPlayError or SafeguardingError when the change is not allowed.
+ */
+export async function changeReturnToPlayStage(
+  db: Db,
+  injuryId: string,
+  change: StageChangeInput,
+  actor: { id: string; signOff: SignOff | null }
+) {
+  const injury = await db.injury.findUniqueOrThrow({
+    where: { id: injuryId },
+    select: {
+      severity: true,
+      returnToPlayStage: true,
+      reportedById: true,
+      safeguarding: true,
+      standDownUntil: true,
+      clearanceDocumentRecordedAt: true,
+      clearanceWaivedAt: true,
+      player: { select: { firstName: true, lastName: true } },
+    },
+  });
+
+  const { stage, expectedReturnDate, note } = change;
+  const from = injury.returnToPlayStage as ReturnToPlayStage;
+  const { signOff } = actor;
+  if (stage !== undefined) assertStageTransition(from, stage, injury.severity as InjurySeverity, signOff);
+  const cleared = stage === 'CLEARED';
+  if (cleared) assertSafeguardingCleared(injury, new Date());
+
+  // Guard on the current stage so two concurrent changes cannot both apply
+  const { count } = await db.injury.updateMany({
+    where: { id: injuryId, returnToPlayStage: from },
+    data: {
+      ...(stage !== undefined ? { returnToPlayStage: stage } : {}),
+      ...(expectedReturnDate !== undefined ? { expectedReturnDate } : {}),
+      ...(cleared
+        ? { clearedAt: new Date(), clearedByName: signOff?.name ?? null, clearanceSource: signOff?.source ?? null }
+        : {}),
+    },
+  });
+  if (count === 0) throw new ReturnToPlayError('Return to play was changed by someone else; reload and try again.');
+
+  if (stage !== undefined) {
+    await db.returnToPlayEvent.create({
+      data: {
+        injuryId,
+        fromStage: from,
+        toStage: stage,
+        changedById: actor.id,
+        signedOffBy: signOff?.name ?? null,
+        clearanceSource: signOff?.source ?? null,
+        note,
+      },
+    });
+  }
+  if (cleared && signOff && injury.reportedById) {
+    const player = `${injury.player.firstName} ${injury.player.lastName}`;
+    await notifyUsers(db, [injury.reportedById], {
+      kind: 'RETURN_TO_PLAY_CLEARED',
+      title: `${player} cleared to play`,
+      body: `${signOff.name} cleared ${player} to return to play.`,
+      injuryId,
+    });
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Head-injury (concussion) safeguarding.
+ *
+ * - Any "Head" injury takes the safeguarding path: at least HIGH severity, an immediate clinic
+ *   referral and a minimum stand-down that depends on the player's age (from Player.dob).
+ * - The player cannot be cleared to play, or picked, until the stand-down is over and a clearance
+ *   document is recorded. Only an admin can override that, and every override needs a reason.
+ */
+
+import type { InjurySeverity } from './referrals';
+
+export const HEAD_INJURY_TYPE = 'Head';
+
+// underAge null is the rule for everyone at or above the other rules' ages
+export type StandDownRule = { underAge: number | null; minDays: number };
+
+// Used when no rules are configured
+export const DEFAULT_STAND_DOWN_RULES: StandDownRule[] = [
+  { underAge: 19, minDays: 23 },
+  { underAge: null, minDays: 21 },
+];
+
+export type OverrideAction = 'STAND_DOWN_OVERRIDDEN' | 'CLEARANCE_WAIVED' | 'SAFEGUARDING_LIFTED';
+export const OVERRIDE_ACTIONS: OverrideAction[] = ['STAND_DOWN_OVERRIDDEN', 'CLEARANCE_WAIVED', 'SAFEGUARDING_LIFTED'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SafeguardingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SafeguardingError';
+  }
+}
+
+export function isHeadInjury(injuryType: string) {
+  return injuryType.trim().toLowerCase() === HEAD_INJURY_TYPE.toLowerCase();
+}
+
+/**
+ * Head injuries are never recorded below HIGH, so clearing them also needs a clinic / medic sign-off.
+ */
+export function safeguardingSeverity(severity: InjurySeverity): InjurySeverity {
+  return severity === 'LOW' || severity === 'MEDIUM' ? 'HIGH' : severity;
+}
+
+/**
+ * Validate stand-down rules; returns an error message or null.
+ * Exactly one rule must have underAge null, and no two rules the same underAge.
+ */
+export function validateStandDownRules(input: unknown): string | null {
+  if (!Array.isArray(input) || input.length === 0) return 'rules must be a non-empty array';
+  const ages = new Set<number | null>();
+  for (const [i, rule] of input.entries()) {
+    const at = `rules[${i}]`;
+    if (!rule || typeof rule !== 'object') return `${at} must be an object`;
+    if (rule.underAge !== null && (!Number.isInteger(rule.underAge) || rule.underAge < 5 || rule.underAge > 99)) {
+      return `${at}.underAge must be a whole number of years between 5 and 99, or null`;
+    }
+    if (!Number.isInteger(rule.minDays) || rule.minDays < 1 || rule.minDays > 365) {
+      return `${at}.minDays must be between 1 and 365`;
+    }
+    if (ages.has(rule.underAge)) return `${at} repeats underAge ${rule.underAge}`;
+    ages.add(rule.underAge);
+  }
+  if (!ages.has(null)) return 'One rule must have underAge null (everyone older)';
+  return null;
+}
+
+/**
+ * Age in whole years on `on`.
+ */
+export function ageOn(dob: Date, on: Date) {
+  let age = on.getUTCFullYear() - dob.getUTCFullYear();
+  const birthdayPassed =
+    on.getUTCMonth() > dob.getUTCMonth() ||
+    (on.getUTCMonth() === dob.getUTCMonth() && on.getUTCDate() >= dob.getUTCDate());
+  if (!birthdayPassed) age--;
+  return age;
+}
+
+/**
+ * Minimum stand-down days for a player: the youngest age group they are under, else the open rule.
+ * Without a date of birth the longest stand-down applies.
+ */
+export function standDownDays(rules: StandDownRule[], dob: Date | null, on: Date) {
+  const effective = rules.length ? rules : DEFAULT_STAND_DOWN_RULES;
+  if (!dob) return Math.max(...effective.map((r) => r.minDays));
+
+  const age = ageOn(dob, on);
+  const group = effective
+    .filter((r) => r.underAge !== null && age < r.underAge)
+    .sort((a, b) => a.underAge! - b.underAge!)[0];
+  return (group ?? effective.find((r) => r.underAge === null) ?? effective[0]).minDays;
+}
+
+export function standDownUntil(reportedAt: Date, days: number) {
+  return new Date(reportedAt.getTime() + days * DAY_MS);
+}
+
+/**
+ * Validate a clearance document body { documentUrl, issuedBy }; returns an error message or null.
+ */
+export function validateClearanceDocument(body: any): string | null {
+  const url = String(body?.documentUrl || '').trim();
+  if (!url) return 'documentUrl is required';
+  try {
+    if (new URL(url).protocol !== 'https:') return 'documentUrl must be an https URL';
+  } catch {
+    return 'documentUrl must be a valid URL';
+  }
+  if (!String(body?.issuedBy || '').trim()) return 'issuedBy (the clinician who issued the clearance) is required';
+  return null;
+}
+
+export type SafeguardingFacts = {
+  safeguarding: boolean;
+  standDownUntil: Date | null;
+  clearanceDocumentRecordedAt: Date | null;
+  clearanceWaivedAt: Date | null;
+};
+
+/**
+ * Throws SafeguardingError while a safeguarded injury cannot be cleared to play.
+ */
+export function assertSafeguardingCleared(facts: SafeguardingFacts, now: Date) {
+  if (!facts.safeguarding) return;
+  if (facts.standDownUntil && facts.standDownUntil > now) {
+    throw new SafeguardingError(
+      `Head injury: the player is stood down until ${facts.standDownUntil.toISOString().slice(0, 10)}.`
+    );
+  }
+  if (!facts.clearanceDocumentRecordedAt && !facts.clearanceWaivedAt) {
+    throw new SafeguardingError('Head injury: record the clearance document before clearing the player.');
+  }
+}
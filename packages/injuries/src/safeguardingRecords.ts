@@ -0,0 +1,142 @@
+/**
+ * Database side of safeguarding.ts: stand-down rules, the safeguarding audit trail and admin alerts.
+ *
+ * Every function takes the transaction client so the audit entry and alerts commit with the change.
+ */
+
+import { Prisma } from '@prisma/client';
+import { notifyAdmins } from '../../notifications/src/notifications';
+import {
+  DEFAULT_STAND_DOWN_RULES,
+  OverrideAction,
+  SafeguardingError,
+  StandDownRule,
+  standDownDays,
+  standDownUntil,
+} from './safeguarding';
+
+type Db = Prisma.TransactionClient;
+
+const day = (d: Date) => d.toISOString().slice(0, 10);
+
+/**
+ * Configured stand-down rules, youngest age group first; the defaults when none are configured.
+ */
+export async function loadStandDownRules(db: Db): Promise<StandDownRule[]> {
+  const rows = await db.concussionStandDownRule.findMany({ select: { underAge: true, minDays: true } });
+  if (rows.length === 0) return DEFAULT_STAND_DOWN_RULES;
+  return rows.sort((a, b) => (a.underAge ?? Infinity) - (b.underAge ?? Infinity));
+}
+
+/**
+ * Stand-down for a head injury reported now by a player born on `dob`.
+ */
+export async function planStandDown(db: Db, dob: Date | null, reportedAt: Date) {
+  const minDays = standDownDays(await loadStandDownRules(db), dob, reportedAt);
+  return { minDays, standDownUntil: standDownUntil(reportedAt, minDays) };
+}
+
+type ReportedHeadInjury = {
+  id: string;
+  referralRef: string | null;
+  referredTo: string | null;
+  standDownUntil: Date;
+  player: {
+    firstName: string;
+    lastName: string;
+    team: { name: string; league: { name: string } | null } | null;
+  };
+};
+
+/**
+ * Audit the start of the safeguarding path and alert the admins.
+ */
+export async function recordConcussionReported(db: Db, injury: ReportedHeadInjury, minDays: number, reportedById: string) {
+  const detail = `stand-down ${minDays} days, until ${day(injury.standDownUntil)}; referred to ${injury.referredTo ?? 'clinic'}`;
+  await db.safeguardingEvent.create({
+    data: { injuryId: injury.id, action: 'CONCUSSION_REPORTED', actorId: reportedById, detail },
+  });
+
+  const player = `${injury.player.firstName} ${injury.player.lastName}`;
+  const team = injury.player.team;
+  const where = team ? ` (${team.name}${team.league ? `, ${team.league.name}` : ''})` : '';
+  await notifyAdmins(db, {
+    kind: 'CONCUSSION_REPORTED',
+    title: `Head injury reported: ${player}`,
+    body:
+      `${player}${where} has a reported head injury. Referral ${injury.referralRef ?? ''} was sent to ` +
+      `${injury.referredTo ?? 'the clinic'}; the player is stood down until ${day(injury.standDownUntil)} ` +
+      `and blocked from fixtures until a clearance document is recorded.`,
+    injuryId: injury.id,
+  });
+}
+
+/**
+ * Record a clearance document for a safeguarded injury (once).
+ */
+export async function recordClearanceDocument(
+  db: Db,
+  injuryId: string,
+  input: { documentUrl: string; issuedBy: string },
+  actorId: string
+) {
+  const { count } = await db.injury.updateMany({
+    where: { id: injuryId, safeguarding: true, clearanceDocumentRecordedAt: null },
+    data: {
+      clearanceDocumentUrl: input.documentUrl,
+      clearanceDocumentIssuedBy: input.issuedBy,
+      clearanceDocumentRecordedAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    throw new SafeguardingError('This injury is not under safeguarding or its clearance document is already recorded.');
+  }
+  await db.safeguardingEvent.create({
+    data: {
+      injuryId,
+      action: 'CLEARANCE_RECORDED',
+      actorId,
+      detail: `issued by ${input.issuedBy}: ${input.documentUrl}`,
+    },
+  });
+}
+
+export type OverrideInput =
+  | { action: 'STAND_DOWN_OVERRIDDEN'; standDownUntil: Date; reason: string }
+  | { action: 'CLEARANCE_WAIVED' | 'SAFEGUARDING_LIFTED'; reason: string };
+
+/**
+ * Apply an admin override to a safeguarded injury and audit it with who and why.
+ */
+export async function overrideSafeguarding(db: Db, injuryId: string, input: OverrideInput, actorId: string) {
+  const injury = await db.injury.findUnique({
+    where: { id: injuryId },
+    select: { safeguarding: true, standDownUntil: true, clearanceDocumentRecordedAt: true, clearanceWaivedAt: true },
+  });
+  if (!injury) throw new SafeguardingError('Injury not found');
+  if (!injury.safeguarding) throw new SafeguardingError('This injury is not under safeguarding.');
+
+  let data: Prisma.InjuryUpdateManyMutationInput;
+  let detail: string;
+  const action: OverrideAction = input.action;
+  if (input.action === 'STAND_DOWN_OVERRIDDEN') {
+    const before = injury.standDownUntil ? day(injury.standDownUntil) : 'none';
+    data = { standDownUntil: input.standDownUntil };
+    detail = `stand-down until ${before} → ${day(input.standDownUntil)}`;
+  } else if (input.action === 'CLEARANCE_WAIVED') {
+    if (injury.clearanceDocumentRecordedAt || injury.clearanceWaivedAt) {
+      throw new SafeguardingError('The clearance document is already recorded or waived.');
+    }
+    data = { clearanceWaivedAt: new Date() };
+    detail = 'clearance document waived';
+  } else {
+    data = { safeguarding: false };
+    detail = 'safeguarding lifted: handled as an ordinary injury';
+  }
+
+  // Guard on safeguarding so a concurrent lift cannot be overridden again
+  const { count } = await db.injury.updateMany({ where: { id: injuryId, safeguarding: true }, data });
+  if (count === 0) throw new SafeguardingError('Safeguarding was changed by someone else; reload and try again.');
+
+  await db.safeguardingEvent.create({ data: { injuryId, action, actorId, reason: input.reason, detail } });
+}
@@ -0,0 +1,132 @@
+/**
+ * Referral vouchers: a one-page PDF the player takes to the clinic.
+ *
+ * - The voucher carries a QR code of the verification link. The token in it is the injury id
+ *   signed with REFERRAL_VOUCHER_SECRET (HMAC-SHA256), so a voucher cannot be forged or altered
+ *   to point at another referral.
+ * - Anyone can verify the voucher. The referral's clinic redeems it once, after accepting the referral;
+ *   redemption completes the referral.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { A4, layoutLines, PdfLine, renderPdf } from '../../documents/src/pdf';
+import { encodeQr, qrOps } from '../../documents/src/qr';
+
+export type VoucherReferral = {
+  id: string;
+  referralRef: string | null;
+  referredTo: string | null;
+  injuryType: string;
+  severity: string;
+  notes: string | null;
+  createdAt: Date;
+  safeguarding: boolean;
+  player: { firstName: string; lastName: string; team: { name: string } | null };
+};
+
+// Signature bytes kept in the token; 128 bits keeps the QR code small
+const SIGNATURE_BYTES = 16;
+
+// Characters per wrapped line of notes, so text stays clear of the QR code
+const NOTES_WIDTH = 60;
+
+const QR_SIZE = 130;
+const MARGIN = 50;
+
+function voucherSecret() {
+  const secret = process.env.REFERRAL_VOUCHER_SECRET;
+  if (!secret) throw new Error('REFERRAL_VOUCHER_SECRET is not set');
+  return secret;
+}
+
+function signature(injuryId: string, secret: string) {
+  return createHmac('sha256', secret)
+    .update(`referral-voucher:${injuryId}`)
+    .digest()
+    .subarray(0, SIGNATURE_BYTES)
+    .toString('base64url');
+}
+
+/**
+ * Token printed on the voucher: "<injuryId>.<signature>".
+ */
+export function signVoucherToken(injuryId: string, secret = voucherSecret()) {
+  return `${injuryId}.${signature(injuryId, secret)}`;
+}
+
+/**
+ * The injury id of a genuine voucher token, or null when the token was not issued by us.
+ */
+export function readVoucherToken(token: string, secret = voucherSecret()): string | null {
+  const [injuryId, given, ...rest] = token.split('.');
+  if (!injuryId || !given || rest.length) return null;
+  const expected = Buffer.from(signature(injuryId, secret));
+  const actual = Buffer.from(given);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  return injuryId;
+}
+
+function wrap(text: string, width: number) {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + 1 + word.length > width) {
+        lines.push(line);
+        line = '';
+      }
+      line = line ? `${line} ${word}` : word;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Render the voucher; `verifyUrl` is the full verification link including the token.
+ */
+export function referralVoucherPdf(referral: VoucherReferral, verifyUrl: string) {
+  const reference = referral.referralRef ?? referral.id;
+  const player = `${referral.player.firstName} ${referral.player.lastName}`;
+
+  const lines: PdfLine[] = [
+    { text: 'Sesigo Hive - Referral voucher', size: 18, bold: true },
+    { text: `Referral ${reference}`, size: 12, bold: true, gapBefore: 8 },
+    { text: `Issued ${referral.createdAt.toISOString().slice(0, 10)}` },
+    { text: `Player: ${player}`, size: 11, gapBefore: 16 },
+    ...(referral.player.team ? [{ text: `Team: ${referral.player.team.name}`, size: 11 }] : []),
+    { text: `Referred to: ${referral.referredTo ?? '-'}`, size: 11 },
+    { text: `Injury type: ${referral.injuryType}`, size: 11, gapBefore: 8 },
+    { text: `Severity: ${referral.severity}`, size: 11 },
+  ];
+  if (referral.notes?.trim()) {
+    lines.push({ text: 'Notes', bold: true, gapBefore: 8 });
+    lines.push(...wrap(referral.notes, NOTES_WIDTH).map((text) => ({ text })));
+  }
+  if (referral.safeguarding) {
+    lines.push({
+      text: 'Head injury: the player may not return to play until a clearance document is recorded.',
+      bold: true,
+      gapBefore: 12,
+    });
+  }
+  lines.push(
+    {
+      text: 'The clinic can confirm this voucher is genuine and unused by scanning the code or opening:',
+      size: 8,
+      gapBefore: 24,
+    },
+    { text: verifyUrl, size: 7 },
+    { text: 'A voucher can be redeemed once.', size: 8 }
+  );
+
+  const pages = layoutLines(lines, { margin: MARGIN });
+  pages[0].push(
+    ...qrOps(encodeQr(verifyUrl), {
+      x: A4.width - MARGIN - QR_SIZE,
+      y: A4.height - MARGIN - QR_SIZE,
+      size: QR_SIZE,
+    })
+  );
+  return renderPdf(pages, { title: `Referral voucher ${reference}` });
+}
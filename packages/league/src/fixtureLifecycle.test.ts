@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { assertTransition, FixtureTransitionError, reconcileScoreReports, validateScore } from './fixtureLifecycle';
+
+const FIXTURE = { homeTeamId: 'home', awayTeamId: 'away' };
+
+describe('reconcileScoreReports', () => {
+  it('waits for the other side after the first report', () => {
+    expect(reconcileScoreReports(FIXTURE, [{ teamId: 'home', homeScore: 2, awayScore: 1 }])).toEqual({
+      resultStatus: 'AWAITING_CONFIRMATION',
+      pendingTeamId: 'away',
+    });
+    expect(reconcileScoreReports(FIXTURE, [{ teamId: 'away', homeScore: 2, awayScore: 1 }])).toEqual({
+      resultStatus: 'AWAITING_CONFIRMATION',
+      pendingTeamId: 'home',
+    });
+  });
+
+  it('confirms the score when both sides report the same', () => {
+    const reports = [
+      { teamId: 'away', homeScore: 0, awayScore: 3 },
+      { teamId: 'home', homeScore: 0, awayScore: 3 },
+    ];
+    expect(reconcileScoreReports(FIXTURE, reports)).toEqual({ resultStatus: 'CONFIRMED', homeScore: 0, awayScore: 3 });
+  });
+
+  it('marks different scores as disputed', () => {
+    const reports = [
+      { teamId: 'home', homeScore: 2, awayScore: 1 },
+      { teamId: 'away', homeScore: 1, awayScore: 2 },
+    ];
+    expect(reconcileScoreReports(FIXTURE, reports)).toEqual({ resultStatus: 'DISPUTED' });
+  });
+
+  it('ignores reports from teams not in the fixture', () => {
+    const reports = [
+      { teamId: 'home', homeScore: 2, awayScore: 1 },
+      { teamId: 'other', homeScore: 2, awayScore: 1 },
+    ];
+    expect(reconcileScoreReports(FIXTURE, reports).resultStatus).toBe('AWAITING_CONFIRMATION');
+  });
+
+  it('refuses to reconcile without any report', () => {
+    expect(() => reconcileScoreReports(FIXTURE, [])).toThrow(FixtureTransitionError);
+  });
+});
+
+describe('assertTransition', () => {
+  it('allows the documented transitions', () => {
+    expect(() => assertTransition('SCHEDULED', 'POSTPONED')).not.toThrow();
+    expect(() => assertTransition('POSTPONED', 'POSTPONED')).not.toThrow();
+    expect(() => assertTransition('POSTPONED', 'SCHEDULED')).not.toThrow();
+    expect(() => assertTransition('SCHEDULED', 'COMPLETED')).not.toThrow();
+  });
+
+  it('keeps COMPLETED and CANCELLED final without an override', () => {
+    expect(() => assertTransition('COMPLETED', 'SCHEDULED')).toThrow('without an admin override');
+    expect(() => assertTransition('CANCELLED', 'SCHEDULED')).toThrow(FixtureTransitionError);
+    expect(() => assertTransition('COMPLETED', 'SCHEDULED', { override: true })).not.toThrow();
+  });
+
+  it('refuses an override to the same status, except moving a postponed fixture again', () => {
+    expect(() => assertTransition('COMPLETED', 'COMPLETED', { override: true })).toThrow('already COMPLETED');
+    expect(() => assertTransition('POSTPONED', 'POSTPONED', { override: true })).not.toThrow();
+  });
+});
+
+describe('validateScore', () => {
+  it('accepts non-negative integers only', () => {
+    expect(validateScore(0, 4)).toBeNull();
+    expect(validateScore(-1, 0)).toBe('homeScore must be a non-negative integer');
+    expect(validateScore(1, 1.5)).toBe('awayScore must be a non-negative integer');
+    expect(validateScore('2', 0)).toBe('homeScore must be a non-negative integer');
+  });
+});
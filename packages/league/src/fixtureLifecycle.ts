@@ -0,0 +1,96 @@
+/**
+ * Fixture status transitions and two-sided score confirmation.
+ *
+ * - SCHEDULED → POSTPONED | COMPLETED | CANCELLED
+ * - POSTPONED → SCHEDULED | POSTPONED (moved again) | COMPLETED | CANCELLED
+ * - COMPLETED and CANCELLED are final; only an admin override can move them (e.g. back to SCHEDULED).
+ * - A score counts once both managers have reported the same score; different scores mark the
+ *   result DISPUTED for an admin to resolve.
+ */
+
+export type FixtureStatus = 'SCHEDULED' | 'POSTPONED' | 'COMPLETED' | 'CANCELLED';
+
+export type ResultStatus = 'NONE' | 'AWAITING_CONFIRMATION' | 'CONFIRMED' | 'DISPUTED';
+export const RESULT_STATUSES: ResultStatus[] = ['NONE', 'AWAITING_CONFIRMATION', 'CONFIRMED', 'DISPUTED'];
+
+export const FIXTURE_TRANSITIONS: Record<FixtureStatus, FixtureStatus[]> = {
+  SCHEDULED: ['POSTPONED', 'COMPLETED', 'CANCELLED'],
+  POSTPONED: ['SCHEDULED', 'POSTPONED', 'COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+export class FixtureTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FixtureTransitionError';
+  }
+}
+
+/**
+ * Throws FixtureTransitionError unless `from → to` is allowed.
+ * With `override` (admins only) any change of status is allowed.
+ */
+export function assertTransition(from: FixtureStatus, to: FixtureStatus, opts?: { override?: boolean }) {
+  if (opts?.override) {
+    if (from === to && from !== 'POSTPONED') {
+      throw new FixtureTransitionError(`Fixture is already ${from}.`);
+    }
+    return;
+  }
+  if (!FIXTURE_TRANSITIONS[from].includes(to)) {
+    const hint = FIXTURE_TRANSITIONS[from].length === 0 ? ' without an admin override' : '';
+    throw new FixtureTransitionError(`Cannot move a ${from} fixture to ${to}${hint}.`);
+  }
+}
+
+export type ScoreReportInput = {
+  teamId: string;
+  homeScore: number;
+  awayScore: number;
+};
+
+export type ScoreReconciliation =
+  | { resultStatus: 'AWAITING_CONFIRMATION'; pendingTeamId: string }
+  | { resultStatus: 'CONFIRMED'; homeScore: number; awayScore: number }
+  | { resultStatus: 'DISPUTED' };
+
+/**
+ * Decide what the reported scores mean for the fixture.
+ *
+ * @param fixture - home and away team ids
+ * @param reports - at most one report per side (later reports replace earlier ones)
+ */
+export function reconcileScoreReports(
+  fixture: { homeTeamId: string; awayTeamId: string },
+  reports: ScoreReportInput[]
+): ScoreReconciliation {
+  const home = reports.find((r) => r.teamId === fixture.homeTeamId);
+  const away = reports.find((r) => r.teamId === fixture.awayTeamId);
+
+  if (!home && !away) {
+    throw new FixtureTransitionError('No score has been reported for this fixture.');
+  }
+  if (!home || !away) {
+    return { resultStatus: 'AWAITING_CONFIRMATION', pendingTeamId: home ? fixture.awayTeamId : fixture.homeTeamId };
+  }
+  if (home.homeScore === away.homeScore && home.awayScore === away.awayScore) {
+    return { resultStatus: 'CONFIRMED', homeScore: home.homeScore, awayScore: home.awayScore };
+  }
+  return { resultStatus: 'DISPUTED' };
+}
+
+/**
+ * Validate a submitted score; returns an error message or null.
+ */
+export function validateScore(homeScore: unknown, awayScore: unknown): string | null {
+  for (const [label, v] of [
+    ['homeScore', homeScore],
+    ['awayScore', awayScore],
+  ] as const) {
+    if (typeof v !== 'number' || !Number.isInteger(v) || v < 0) {
+      return `${label} must be a non-negative integer`;
+    }
+  }
+  return null;
+}
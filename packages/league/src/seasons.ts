@@ -0,0 +1,58 @@
+/**
+ * Season roll-over planning.
+ *
+ * Splits a final league table into teams that stay, are promoted (top N) and are
+ * relegated (bottom N). The caller applies the plan to the database.
+ */
+
+import { StandingsRow } from './standings';
+
+export type RolloverRules = {
+  promote?: number; // top N teams move up
+  relegate?: number; // bottom N teams move down
+};
+
+export type RolloverPlan = {
+  staying: string[];
+  promoted: string[];
+  relegated: string[];
+  finalPositions: Record<string, number>;
+};
+
+export class RolloverError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RolloverError';
+  }
+}
+
+/**
+ * @param table - final standings of the season being closed (ordered by position)
+ * @param rules - how many teams to promote and relegate (default 0 each)
+ */
+export function planRollover(table: StandingsRow[], rules?: RolloverRules): RolloverPlan {
+  const promote = rules?.promote ?? 0;
+  const relegate = rules?.relegate ?? 0;
+
+  for (const [label, n] of [
+    ['promote', promote],
+    ['relegate', relegate],
+  ] as const) {
+    if (!Number.isInteger(n) || n < 0) throw new RolloverError(`${label} must be a non-negative integer.`);
+  }
+  if (promote + relegate > table.length) {
+    throw new RolloverError(
+      `Cannot promote ${promote} and relegate ${relegate} teams from a table of ${table.length}.`
+    );
+  }
+
+  const ordered = [...table].sort((a, b) => a.position - b.position);
+  const ids = ordered.map((row) => row.teamId);
+
+  return {
+    promoted: ids.slice(0, promote),
+    relegated: relegate > 0 ? ids.slice(ids.length - relegate) : [],
+    staying: ids.slice(promote, ids.length - relegate),
+    finalPositions: Object.fromEntries(ordered.map((row) => [row.teamId, row.position])),
+  };
+}
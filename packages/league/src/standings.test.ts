@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { computeStandings, StandingsFixture } from './standings';
+
+const TEAMS = [
+  { id: 'a', name: 'Albion' },
+  { id: 'b', name: 'Borough' },
+  { id: 'c', name: 'City' },
+];
+
+const result = (homeTeamId: string, homeScore: number, awayScore: number, awayTeamId: string): StandingsFixture => ({
+  homeTeamId,
+  awayTeamId,
+  homeScore,
+  awayScore,
+  status: 'COMPLETED',
+});
+
+const order = (rows: { teamId: string }[]) => rows.map((r) => r.teamId);
+
+describe('computeStandings', () => {
+  it('counts completed fixtures with both scores only', () => {
+    const table = computeStandings(TEAMS, [
+      result('a', 2, 1, 'b'),
+      { ...result('a', 5, 0, 'c'), status: 'SCHEDULED' },
+      { ...result('b', 1, 0, 'c'), awayScore: null },
+    ]);
+
+    expect(table.find((r) => r.teamId === 'a')).toMatchObject({
+      played: 1,
+      won: 1,
+      goalsFor: 2,
+      goalsAgainst: 1,
+      points: 3,
+    });
+    expect(table.find((r) => r.teamId === 'b')).toMatchObject({ played: 1, lost: 1, goalDifference: -1, points: 0 });
+    expect(table.find((r) => r.teamId === 'c')).toMatchObject({ played: 0, points: 0 });
+  });
+
+  it("uses the league's points per result", () => {
+    const table = computeStandings(TEAMS, [result('a', 1, 1, 'b'), result('c', 0, 1, 'a')], {
+      pointsForWin: 2,
+      pointsForDraw: 1,
+      pointsForLoss: 1,
+    });
+
+    expect(table.map((r) => [r.teamId, r.points])).toEqual([
+      ['a', 3],
+      ['b', 1],
+      ['c', 1],
+    ]);
+    expect(table.map((r) => r.position)).toEqual([1, 2, 3]);
+  });
+
+  describe('tie-breakers', () => {
+    // Albion and Borough both on 3 points: Albion has the better goal difference, Borough won the
+    // match between them
+    const fixtures = [result('a', 4, 0, 'c'), result('b', 1, 0, 'a'), result('b', 0, 0, 'c')];
+    const rules = { pointsForDraw: 0 };
+
+    it('applies goal difference before head-to-head by default', () => {
+      expect(order(computeStandings(TEAMS, fixtures, rules))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('ranks teams level on points on the mini-table of their matches', () => {
+      const table = computeStandings(TEAMS, fixtures, { ...rules, tieBreakers: ['HEAD_TO_HEAD'] });
+      expect(order(table)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('splits on goals scored', () => {
+      const table = computeStandings(TEAMS, [result('a', 3, 1, 'c'), result('b', 2, 0, 'c')], {
+        tieBreakers: ['GOALS_FOR'],
+      });
+      expect(order(table)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('orders teams still level by name', () => {
+      // Each team beat one of the others 1-0: level on points, goals and the head-to-head mini-table
+      const cycle = [result('c', 1, 0, 'a'), result('a', 1, 0, 'b'), result('b', 1, 0, 'c')];
+      expect(order(computeStandings(TEAMS, cycle))).toEqual(['a', 'b', 'c']);
+      expect(order(computeStandings([...TEAMS].reverse(), cycle))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('only counts matches between the tied teams in the mini-table', () => {
+      const teams = [...TEAMS, { id: 'd', name: 'Dynamo' }];
+      // Albion and City on 3 points; City beat Albion, Albion's points came from a big win over Dynamo
+      const table = computeStandings(
+        teams,
+        [result('a', 6, 0, 'd'), result('c', 1, 0, 'a'), result('b', 2, 0, 'c'), result('b', 1, 0, 'd')],
+        { tieBreakers: ['HEAD_TO_HEAD', 'GOAL_DIFFERENCE'] }
+      );
+      expect(order(table)).toEqual(['b', 'c', 'a', 'd']);
+    });
+  });
+});
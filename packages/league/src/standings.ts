@@ -0,0 +1,167 @@
+/**
+ * League table calculator.
+ *
+ * - Only COMPLETED fixtures with both scores recorded count.
+ * - Points per result and tie-breakers come from the league's rules.
+ * - Teams level on points are split by each tie-breaker in order; HEAD_TO_HEAD ranks the
+ *   tied teams on a mini-table of the matches between them. Anything still level is
+ *   ordered by team name so the table is stable.
+ *
+ * Usage:
+ *  const table = computeStandings(teams, fixtures, { pointsForWin: 3, tieBreakers: ['HEAD_TO_HEAD'] });
+ */
+
+export type TieBreaker = 'HEAD_TO_HEAD' | 'GOAL_DIFFERENCE' | 'GOALS_FOR';
+
+export type StandingsRules = {
+  pointsForWin: number;
+  pointsForDraw: number;
+  pointsForLoss: number;
+  tieBreakers: TieBreaker[];
+};
+
+export const DEFAULT_STANDINGS_RULES: StandingsRules = {
+  pointsForWin: 3,
+  pointsForDraw: 1,
+  pointsForLoss: 0,
+  tieBreakers: ['GOAL_DIFFERENCE', 'GOALS_FOR', 'HEAD_TO_HEAD'],
+};
+
+export type StandingsFixture = {
+  homeTeamId: string;
+  awayTeamId: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  status: string;
+};
+
+export type StandingsRow = {
+  position: number;
+  teamId: string;
+  teamName: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+};
+
+/**
+ * Build the league table.
+ *
+ * @param teams - every team that should appear (teams with no results show zeros)
+ * @param fixtures - the league's fixtures; non-completed ones are ignored
+ * @param rules - partial rules, merged over DEFAULT_STANDINGS_RULES
+ */
+export function computeStandings(
+  teams: Array<{ id: string; name: string }>,
+  fixtures: StandingsFixture[],
+  rules?: Partial<StandingsRules>
+): StandingsRow[] {
+  const r = { ...DEFAULT_STANDINGS_RULES, ...rules };
+  const results = fixtures.filter(isResult);
+  const rows = tabulate(teams, results, r);
+
+  const ranked: StandingsRow[] = [];
+  for (const group of splitBy(rows, (row) => row.points)) {
+    ranked.push(...breakTies(group, results, r, r.tieBreakers));
+  }
+  return ranked.map((row, i) => ({ ...row, position: i + 1 }));
+}
+
+type Result = StandingsFixture & { homeScore: number; awayScore: number };
+
+function isResult(f: StandingsFixture): f is Result {
+  return f.status === 'COMPLETED' && f.homeScore != null && f.awayScore != null;
+}
+
+function tabulate(teams: Array<{ id: string; name: string }>, results: Result[], rules: StandingsRules) {
+  const rows = new Map<string, StandingsRow>(
+    teams.map((t) => [
+      t.id,
+      {
+        position: 0,
+        teamId: t.id,
+        teamName: t.name,
+        played: 0,
+        won: 0,
+        drawn: 0,
+        lost: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        goalDifference: 0,
+        points: 0,
+      },
+    ])
+  );
+
+  const record = (teamId: string, scored: number, conceded: number) => {
+    const row = rows.get(teamId);
+    if (!row) return; // team not in this table (e.g. head-to-head subset)
+    row.played++;
+    row.goalsFor += scored;
+    row.goalsAgainst += conceded;
+    row.goalDifference = row.goalsFor - row.goalsAgainst;
+    if (scored > conceded) {
+      row.won++;
+      row.points += rules.pointsForWin;
+    } else if (scored === conceded) {
+      row.drawn++;
+      row.points += rules.pointsForDraw;
+    } else {
+      row.lost++;
+      row.points += rules.pointsForLoss;
+    }
+  };
+
+  for (const f of results) {
+    record(f.homeTeamId, f.homeScore, f.awayScore);
+    record(f.awayTeamId, f.awayScore, f.homeScore);
+  }
+  return [...rows.values()];
+}
+
+function breakTies(
+  group: StandingsRow[],
+  results: Result[],
+  rules: StandingsRules,
+  breakers: TieBreaker[]
+): StandingsRow[] {
+  if (group.length < 2) return group;
+  if (breakers.length === 0) return [...group].sort((a, b) => a.teamName.localeCompare(b.teamName));
+
+  const [breaker, ...rest] = breakers;
+  let key: (row: StandingsRow) => number;
+
+  if (breaker === 'HEAD_TO_HEAD') {
+    const ids = new Set(group.map((row) => row.teamId));
+    const mini = tabulate(
+      group.map((row) => ({ id: row.teamId, name: row.teamName })),
+      results.filter((f) => ids.has(f.homeTeamId) && ids.has(f.awayTeamId)),
+      rules
+    );
+    const miniPoints = new Map(mini.map((m) => [m.teamId, m.points]));
+    key = (row) => miniPoints.get(row.teamId) ?? 0;
+  } else if (breaker === 'GOAL_DIFFERENCE') {
+    key = (row) => row.goalDifference;
+  } else {
+    key = (row) => row.goalsFor;
+  }
+
+  return splitBy(group, key).flatMap((sub) => breakTies(sub, results, rules, rest));
+}
+
+// Sort by key (descending) and split into runs of equal key
+function splitBy(rows: StandingsRow[], key: (row: StandingsRow) => number) {
+  const sorted = [...rows].sort((a, b) => key(b) - key(a));
+  const groups: StandingsRow[][] = [];
+  for (const row of sorted) {
+    const last = groups[groups.length - 1];
+    if (last && key(last[0]) === key(row)) last.push(row);
+    else groups.push([row]);
+  }
+  return groups;
+}
@@ -0,0 +1,80 @@
+/**
+ * In-app notifications (the `notifications` table), listed and marked read by each app.
+ *
+ * Pass the transaction client when the notification belongs to a change, so it is only
+ * sent if the change commits.
+ */
+
+import { Prisma } from '@prisma/client';
+
+type Db = Prisma.TransactionClient;
+
+export type NotificationInput = {
+  kind: string; // e.g. "CONCUSSION_REPORTED"
+  title: string;
+  body: string;
+  injuryId?: string | null;
+};
+
+/**
+ * Notify each of the given users; duplicates are sent once.
+ */
+export async function notifyUsers(db: Db, userIds: string[], input: NotificationInput) {
+  const recipients = [...new Set(userIds)];
+  if (recipients.length === 0) return 0;
+  const { count } = await db.notification.createMany({
+    data: recipients.map((userId) => ({
+      userId,
+      kind: input.kind,
+      title: input.title,
+      body: input.body,
+      injuryId: input.injuryId ?? null,
+    })),
+  });
+  return count;
+}
+
+/**
+ * Notify every admin (leagues have no admin of their own).
+ */
+export async function notifyAdmins(db: Db, input: NotificationInput) {
+  const admins = await db.user.findMany({ where: { role: 'ADMIN' }, select: { id: true } });
+  return notifyUsers(
+    db,
+    admins.map((a) => a.id),
+    input
+  );
+}
+
+export const NOTIFICATION_SELECT = {
+  id: true,
+  kind: true,
+  title: true,
+  body: true,
+  injuryId: true,
+  readAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * The user's notifications, newest first; unread only unless `all`.
+ */
+export function listNotifications(db: Db, userId: string, { all = false, take = 50 } = {}) {
+  return db.notification.findMany({
+    where: { userId, ...(all ? {} : { readAt: null }) },
+    orderBy: { createdAt: 'desc' },
+    take,
+    select: NOTIFICATION_SELECT,
+  });
+}
+
+/**
+ * Mark the given notifications (or all when `ids` is omitted) of the user read.
+ */
+export async function markNotificationsRead(db: Db, userId: string, ids?: string[]) {
+  const { count } = await db.notification.updateMany({
+    where: { userId, readAt: null, ...(ids ? { id: { in: ids } } : {}) },
+    data: { readAt: new Date() },
+  });
+  return count;
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { generateSchedule, nextMatchDay, roundDates, ScheduledFixture, SchedulingError } from './schedule';
+
+const teams = (count: number) => Array.from({ length: count }, (_, i) => ({ id: `t${i + 1}`, name: `Team ${i + 1}` }));
+
+// 2025-03-01 is a Saturday
+const OPTIONS = { startDate: '2025-03-01', kickoffTime: '10:00' };
+
+const pairings = (fixtures: ScheduledFixture[]) => fixtures.map((f) => `${f.home.id}-${f.away.id}`);
+const unordered = (fixtures: ScheduledFixture[]) => fixtures.map((f) => [f.home.id, f.away.id].sort().join('-'));
+const roundKickoffs = (fixtures: ScheduledFixture[]) => [...new Set(fixtures.map((f) => f.scheduledAt))];
+
+describe('generateSchedule', () => {
+  it('pairs every team with every other team once in SINGLE format', () => {
+    const fixtures = generateSchedule(teams(6), OPTIONS);
+
+    expect(fixtures).toHaveLength(15);
+    expect(new Set(unordered(fixtures)).size).toBe(15);
+    expect(Math.max(...fixtures.map((f) => f.round))).toBe(5);
+    for (let round = 1; round <= 5; round++) {
+      const playing = fixtures.filter((f) => f.round === round).flatMap((f) => [f.home.id, f.away.id]);
+      expect(new Set(playing).size).toBe(6);
+    }
+  });
+
+  it('gives one team a bye each round with an odd team count', () => {
+    const fixtures = generateSchedule(teams(5), OPTIONS);
+
+    expect(fixtures).toHaveLength(10);
+    expect(new Set(unordered(fixtures)).size).toBe(10);
+    for (let round = 1; round <= 5; round++) {
+      expect(fixtures.filter((f) => f.round === round)).toHaveLength(2);
+    }
+  });
+
+  it('plays each pairing home and away in DOUBLE format', () => {
+    const fixtures = generateSchedule(teams(4), { ...OPTIONS, format: 'DOUBLE' });
+
+    expect(fixtures).toHaveLength(12);
+    expect(new Set(pairings(fixtures)).size).toBe(12);
+    expect(fixtures.filter((f) => f.leg === 1)).toHaveLength(6);
+    expect(fixtures.filter((f) => f.leg === 2).every((f) => f.round > 3)).toBe(true);
+  });
+
+  it('keeps every team within maxConsecutive home or away games, across the halfway point', () => {
+    const fixtures = generateSchedule(teams(8), { ...OPTIONS, format: 'DOUBLE', maxConsecutive: 2 });
+
+    for (const { id } of teams(8)) {
+      const sides = fixtures
+        .filter((f) => f.home.id === id || f.away.id === id)
+        .map((f) => (f.home.id === id ? 'H' : 'A'));
+      expect(sides.join('')).not.toMatch(/HHH|AAA/);
+    }
+  });
+
+  it('refuses a maxConsecutive the circle method cannot meet', () => {
+    expect(() => generateSchedule(teams(6), { ...OPTIONS, maxConsecutive: 1 })).toThrow(SchedulingError);
+  });
+
+  it('starts on the first match weekday and plays one round per interval', () => {
+    // Monday start, Saturday matches
+    const fixtures = generateSchedule(teams(4), { ...OPTIONS, startDate: '2025-03-03' });
+
+    expect(roundKickoffs(fixtures)).toEqual([
+      '2025-03-08T10:00:00.000Z',
+      '2025-03-15T10:00:00.000Z',
+      '2025-03-22T10:00:00.000Z',
+    ]);
+  });
+
+  it('converts the local kick-off time to UTC', () => {
+    const fixtures = generateSchedule(teams(2), { ...OPTIONS, utcOffsetMinutes: 120 });
+    expect(fixtures[0].scheduledAt).toBe('2025-03-01T08:00:00.000Z');
+  });
+
+  it('moves rounds off blackout dates', () => {
+    const fixtures = generateSchedule(teams(4), { ...OPTIONS, blackoutDates: ['2025-03-08', '2025-03-15'] });
+
+    expect(roundKickoffs(fixtures)).toEqual([
+      '2025-03-01T10:00:00.000Z',
+      '2025-03-22T10:00:00.000Z',
+      '2025-03-29T10:00:00.000Z',
+    ]);
+  });
+
+  it('shuffles the same way for the same seed', () => {
+    const a = generateSchedule(teams(6), { ...OPTIONS, seed: 'spring-2025' });
+    const b = generateSchedule(teams(6), { ...OPTIONS, seed: 'spring-2025' });
+    const unseeded = generateSchedule(teams(6), OPTIONS);
+
+    expect(pairings(a)).toEqual(pairings(b));
+    expect(pairings(a)).not.toEqual(pairings(unseeded));
+  });
+
+  it('returns no fixtures for fewer than two teams', () => {
+    expect(generateSchedule(teams(1), OPTIONS)).toEqual([]);
+  });
+
+  it('rejects duplicate team ids and invalid options', () => {
+    const duplicate = [...teams(2), { id: 't1', name: 'Again' }];
+    expect(() => generateSchedule(duplicate, OPTIONS)).toThrow('Team ids must be unique.');
+    expect(() => generateSchedule(teams(2), { ...OPTIONS, startDate: '01/03/2025' })).toThrow(SchedulingError);
+    expect(() => generateSchedule(teams(2), { ...OPTIONS, kickoffTime: '25:00' })).toThrow(SchedulingError);
+    expect(() => generateSchedule(teams(2), { ...OPTIONS, blackoutDates: ['2025-3-8'] })).toThrow(SchedulingError);
+  });
+});
+
+describe('roundDates', () => {
+  it('gives the same round dates as generateSchedule', () => {
+    const options = { ...OPTIONS, blackoutDates: ['2025-03-08'], utcOffsetMinutes: 60 };
+    expect(roundDates(3, options)).toEqual(roundKickoffs(generateSchedule(teams(4), options)));
+  });
+});
+
+describe('nextMatchDay', () => {
+  it('returns the next weekday strictly after the date', () => {
+    expect(nextMatchDay(new Date('2025-03-01T12:00:00Z'))).toBe('2025-03-08');
+    expect(nextMatchDay(new Date('2025-03-03T12:00:00Z'))).toBe('2025-03-08');
+    expect(nextMatchDay(new Date('2025-03-03T12:00:00Z'), 3)).toBe('2025-03-05');
+  });
+
+  it('uses the league-local date', () => {
+    // Friday 23:30 UTC is already Saturday at UTC+02:00
+    expect(nextMatchDay(new Date('2025-02-28T23:30:00Z'), 6, 120)).toBe('2025-03-08');
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Fixture scheduling engine shared by the admin API and the admin preview.
+ *
+ * - Pairings use the round-robin circle method (a BYE is added for odd team counts).
+ * - DOUBLE format plays a second leg with home/away reversed.
+ * - All inputs are explicit (start date, kick-off time, UTC offset, seed), so the same
+ *   options always produce the same fixtures. The preview and the persisted season match
+ *   as long as both sides pass the same options.
+ *
+ * Usage:
+ *  const fixtures = generateSchedule(teams, {
+ *    format: 'DOUBLE',
+ *    startDate: '2025-03-01',
+ *    weekday: 6,           // Saturday
+ *    kickoffTime: '10:00',
+ *    blackoutDates: ['2025-04-19'],
+ *    maxConsecutive: 2,
+ *    seed: 'spring-2025',
+ *  });
+ */
+
+export type ScheduleFormat = 'SINGLE' | 'DOUBLE';
+
+export type ScheduleOptions = {
+  format?: ScheduleFormat;
+  // First possible match day, 'YYYY-MM-DD' (local to utcOffsetMinutes)
+  startDate: string;
+  // 0 = Sunday ... 6 = Saturday; the first round is moved forward to this weekday
+  weekday?: number;
+  // Local kick-off time, 'HH:MM'
+  kickoffTime?: string;
+  // Offset of the league's local time from UTC, e.g. 120 for UTC+02:00
+  utcOffsetMinutes?: number;
+  // Days between rounds
+  roundIntervalDays?: number;
+  // 'YYYY-MM-DD' dates on which no round may be played; affected rounds move back by one interval
+  blackoutDates?: string[];
+  // Maximum consecutive home (or away) games for any team
+  maxConsecutive?: number;
+  // Shuffles team order deterministically; omitted = teams keep the given order
+  seed?: string | number;
+};
+
+export type ScheduledFixture<T extends { id: string } = { id: string; name: string }> = {
+  round: number;
+  leg: 1 | 2;
+  home: T;
+  away: T;
+  scheduledAt: string; // ISO-8601 (UTC)
+};
+
+export const DEFAULT_SCHEDULE_OPTIONS = {
+  format: 'SINGLE' as ScheduleFormat,
+  weekday: 6,
+  kickoffTime: '10:00',
+  utcOffsetMinutes: 0,
+  roundIntervalDays: 7,
+  maxConsecutive: 2,
+};
+
+export class SchedulingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchedulingError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Generate a full season of fixtures for the given teams.
+ *
+ * @param teams - teams to schedule (at least two); extra fields are carried through to home/away
+ * @param options - see ScheduleOptions; startDate is required so results never depend on "now"
+ *
+ * @returns fixtures ordered by round, then by pairing
+ */
+export function generateSchedule<T extends { id: string }>(
+  teams: T[],
+  options: ScheduleOptions
+): ScheduledFixture<T>[] {
+  if (teams.length < 2) return [];
+
+  const opts = { ...DEFAULT_SCHEDULE_OPTIONS, ...stripUndefined(options) };
+  validateOptions(opts);
+
+  const ids = new Set(teams.map((t) => t.id));
+  if (ids.size !== teams.length) {
+    throw new SchedulingError('Team ids must be unique.');
+  }
+
+  const ordered = opts.seed === undefined ? teams.slice() : shuffle(teams, opts.seed);
+  const firstLeg = buildFirstLeg(ordered);
+  const rounds = opts.format === 'DOUBLE' ? [...firstLeg, ...buildSecondLeg(firstLeg)] : firstLeg;
+  assertMaxConsecutive(rounds, ordered, opts.maxConsecutive);
+
+  const dates = matchDays(rounds.length, opts);
+  const fixtures: ScheduledFixture<T>[] = [];
+  rounds.forEach((pairs, r) => {
+    for (const [home, away] of pairs) {
+      fixtures.push({
+        round: r + 1,
+        leg: r < firstLeg.length ? 1 : 2,
+        home,
+        away,
+        scheduledAt: dates[r].toISOString(),
+      });
+    }
+  });
+  return fixtures;
+}
+
+/**
+ * Next `weekday` strictly after `from`, as 'YYYY-MM-DD' in league-local time.
+ * Used by callers that need a default start date (e.g. "next Saturday").
+ */
+export function nextMatchDay(from: Date, weekday = DEFAULT_SCHEDULE_OPTIONS.weekday, utcOffsetMinutes = 0) {
+  const local = new Date(from.getTime() + utcOffsetMinutes * 60 * 1000);
+  const days = ((weekday - local.getUTCDay()) + 7) % 7 || 7;
+  return toDateKey(new Date(local.getTime() + days * DAY_MS));
+}
+
+/**
+ * Kick-off times (ISO-8601, UTC) of `count` consecutive rounds for the given options, with the
+ * same weekday, interval and blackout rules as generateSchedule. Used to re-date the rest of a
+ * season when part of it has already been played.
+ */
+export function roundDates(count: number, options: ScheduleOptions) {
+  const opts = { ...DEFAULT_SCHEDULE_OPTIONS, ...stripUndefined(options) };
+  validateOptions(opts);
+  return matchDays(count, opts).map((d) => d.toISOString());
+}
+
+type Pairing<T> = [T, T];
+type ResolvedOptions = typeof DEFAULT_SCHEDULE_OPTIONS & ScheduleOptions;
+
+/**
+ * Circle method: the last slot stays fixed (it is the BYE for odd team counts)
+ * and the rest rotate. Home/away follows the canonical pattern, which keeps
+ * every team to at most two consecutive home or away games per leg.
+ */
+function buildFirstLeg<T extends { id: string }>(teams: T[]): Pairing<T>[][] {
+  const slots: Array<T | null> = [...teams];
+  if (slots.length % 2 === 1) slots.push(null); // BYE
+
+  const n = slots.length;
+  const m = n - 1;
+  const rounds: Pairing<T>[][] = [];
+
+  for (let round = 0; round < m; round++) {
+    const pairs: Pairing<T>[] = [];
+    const fixed = slots[m];
+    const rotating = slots[round];
+    if (fixed && rotating) {
+      pairs.push(round % 2 === 1 ? [fixed, rotating] : [rotating, fixed]);
+    }
+    for (let k = 1; k < n / 2; k++) {
+      const a = slots[(round + k) % m]!;
+      const b = slots[(round - k + m) % m]!;
+      pairs.push(k % 2 === 0 ? [a, b] : [b, a]);
+    }
+    rounds.push(pairs);
+  }
+  return rounds;
+}
+
+/**
+ * Second leg: every pairing reversed. It opens with the reverse of the last
+ * first-leg round so no team gets a home or away run across the halfway point.
+ */
+function buildSecondLeg<T>(firstLeg: Pairing<T>[][]): Pairing<T>[][] {
+  const reverse = (round: Pairing<T>[]) => round.map(([h, a]) => [a, h] as Pairing<T>);
+  return [reverse(firstLeg[firstLeg.length - 1]), ...firstLeg.slice(0, -1).map(reverse)];
+}
+
+function assertMaxConsecutive<T extends { id: string }>(rounds: Pairing<T>[][], teams: T[], maxConsecutive: number) {
+  for (const team of teams) {
+    let side: 0 | 1 | null = null;
+    let streak = 0;
+    for (const round of rounds) {
+      const pair = round.find((p) => p[0].id === team.id || p[1].id === team.id);
+      if (!pair) continue; // bye round
+      const current = pair[0].id === team.id ? 0 : 1;
+      streak = current === side ? streak + 1 : 1;
+      side = current;
+      if (streak > maxConsecutive) {
+        throw new SchedulingError(
+          `Cannot keep every team within ${maxConsecutive} consecutive ${side === 0 ? 'home' : 'away'} games ` +
+            `with ${teams.length} teams; raise maxConsecutive.`
+        );
+      }
+    }
+  }
+}
+
+function matchDays(count: number, opts: ResolvedOptions) {
+  const [hours, minutes] = opts.kickoffTime.split(':').map(Number);
+  const start = new Date(`${opts.startDate}T00:00:00.000Z`);
+  const offset = ((opts.weekday - start.getUTCDay()) + 7) % 7;
+  const blackout = new Set(opts.blackoutDates ?? []);
+
+  const dates: Date[] = [];
+  let day = new Date(start.getTime() + offset * DAY_MS);
+  while (dates.length < count) {
+    if (!blackout.has(toDateKey(day))) {
+      const kickoff = day.getTime() + (hours * 60 + minutes - opts.utcOffsetMinutes) * 60 * 1000;
+      dates.push(new Date(kickoff));
+    }
+    day = new Date(day.getTime() + opts.roundIntervalDays * DAY_MS);
+  }
+  return dates;
+}
+
+function validateOptions(opts: ResolvedOptions) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(opts.startDate) || Number.isNaN(Date.parse(opts.startDate))) {
+    throw new SchedulingError('startDate must be a valid YYYY-MM-DD date.');
+  }
+  if (!Number.isInteger(opts.weekday) || opts.weekday < 0 || opts.weekday > 6) {
+    throw new SchedulingError('weekday must be an integer between 0 (Sunday) and 6 (Saturday).');
+  }
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(opts.kickoffTime)) {
+    throw new SchedulingError('kickoffTime must be HH:MM (24h).');
+  }
+  if (!Number.isInteger(opts.roundIntervalDays) || opts.roundIntervalDays < 1) {
+    throw new SchedulingError('roundIntervalDays must be a positive integer.');
+  }
+  if (!Number.isInteger(opts.maxConsecutive) || opts.maxConsecutive < 1) {
+    throw new SchedulingError('maxConsecutive must be a positive integer.');
+  }
+  if (opts.format !== 'SINGLE' && opts.format !== 'DOUBLE') {
+    throw new SchedulingError('format must be SINGLE or DOUBLE.');
+  }
+  for (const d of opts.blackoutDates ?? []) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(d)) {
+      throw new SchedulingError(`Invalid blackout date "${d}" (expected YYYY-MM-DD).`);
+    }
+  }
+}
+
+// Seeded Fisher-Yates shuffle (mulberry32 over a string hash)
+function shuffle<T>(items: T[], seed: string | number) {
+  let h = 1779033703;
+  for (const ch of String(seed)) {
+    h = Math.imul(h ^ ch.charCodeAt(0), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  let state = h >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+function toDateKey(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function stripUndefined<T extends object>(obj: T) {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+}
@@ -0,0 +1,154 @@
+/**
+ * Venue and pitch allocation for generated fixtures.
+ *
+ * - Each fixture keeps its match day; the kick-off may move to another slot that day
+ *   (closest to the requested time first).
+ * - A pitch never hosts two overlapping matches, including bookings that already exist
+ *   (e.g. other leagues' fixtures), and a venue never exceeds maxMatchesPerSlot.
+ * - Fixtures whose home team has a home venue are only placed there.
+ * - Anything that cannot be placed is returned in `unplaced` with a reason instead of throwing.
+ */
+
+export type VenueAvailability = {
+  id: string;
+  name: string;
+  slotMinutes: number;
+  maxMatchesPerSlot?: number | null;
+  pitches: Array<{ id: string; name: string }>;
+  openingHours: Array<{ weekday: number; opensAt: string; closesAt: string }>;
+};
+
+export type PitchBooking = {
+  venueId: string;
+  pitchId: string;
+  scheduledAt: string | Date;
+};
+
+export type FixtureToPlace = {
+  scheduledAt: string; // requested kick-off, ISO-8601
+  homeVenueId?: string | null;
+};
+
+export type PlacedFixture<F extends FixtureToPlace> = F & {
+  venueId: string;
+  pitchId: string;
+  venueLabel: string; // "Venue — Pitch"
+};
+
+export type UnplacedFixture<F extends FixtureToPlace> = {
+  fixture: F;
+  reason: string;
+};
+
+export type AllocationResult<F extends FixtureToPlace> = {
+  placed: PlacedFixture<F>[];
+  unplaced: UnplacedFixture<F>[];
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Assign a venue, pitch and kick-off slot to each fixture.
+ *
+ * @param fixtures - fixtures in the order they should claim slots (e.g. as generated)
+ * @param venues - venues with their pitches and opening hours
+ * @param opts - existing bookings to avoid, and the league's offset from UTC (opening hours are local)
+ */
+export function allocateVenues<F extends FixtureToPlace>(
+  fixtures: F[],
+  venues: VenueAvailability[],
+  opts?: { bookings?: PitchBooking[]; utcOffsetMinutes?: number }
+): AllocationResult<F> {
+  const utcOffsetMinutes = opts?.utcOffsetMinutes ?? 0;
+  const venueById = new Map(venues.map((v) => [v.id, v]));
+  const sortedVenues = [...venues].sort((a, b) => a.name.localeCompare(b.name));
+
+  const bookings = (opts?.bookings ?? []).map((b) => {
+    const start = new Date(b.scheduledAt).getTime();
+    const minutes = venueById.get(b.venueId)?.slotMinutes ?? 120;
+    return { venueId: b.venueId, pitchId: b.pitchId, start, end: start + minutes * MINUTE_MS };
+  });
+
+  const placed: PlacedFixture<F>[] = [];
+  const unplaced: UnplacedFixture<F>[] = [];
+
+  for (const fixture of fixtures) {
+    let candidates = sortedVenues;
+    if (fixture.homeVenueId) {
+      const home = venueById.get(fixture.homeVenueId);
+      if (!home) {
+        unplaced.push({ fixture, reason: 'Home venue no longer exists' });
+        continue;
+      }
+      candidates = [home];
+    }
+    if (candidates.length === 0) {
+      unplaced.push({ fixture, reason: 'No venues configured' });
+      continue;
+    }
+
+    const requested = new Date(fixture.scheduledAt).getTime();
+    const localDay = Math.floor((requested + utcOffsetMinutes * MINUTE_MS) / DAY_MS) * DAY_MS;
+    const weekday = new Date(localDay).getUTCDay();
+
+    const slots = candidates
+      .flatMap((venue, order) =>
+        slotStarts(venue, weekday).map((minutes) => ({
+          venue,
+          order,
+          start: localDay + (minutes - utcOffsetMinutes) * MINUTE_MS,
+        }))
+      )
+      .sort((a, b) => Math.abs(a.start - requested) - Math.abs(b.start - requested) || a.start - b.start || a.order - b.order);
+
+    if (slots.length === 0) {
+      unplaced.push({
+        fixture,
+        reason: fixture.homeVenueId ? 'Home venue is closed on this match day' : 'No venue is open on this match day',
+      });
+      continue;
+    }
+
+    let assigned: PlacedFixture<F> | null = null;
+    for (const { venue, start } of slots) {
+      const end = start + venue.slotMinutes * MINUTE_MS;
+      const overlapping = bookings.filter((b) => b.venueId === venue.id && b.start < end && start < b.end);
+      if (venue.maxMatchesPerSlot != null && overlapping.length >= venue.maxMatchesPerSlot) continue;
+
+      const pitch = venue.pitches.find((p) => !overlapping.some((b) => b.pitchId === p.id));
+      if (!pitch) continue;
+
+      bookings.push({ venueId: venue.id, pitchId: pitch.id, start, end });
+      assigned = {
+        ...fixture,
+        scheduledAt: new Date(start).toISOString(),
+        venueId: venue.id,
+        pitchId: pitch.id,
+        venueLabel: `${venue.name} — ${pitch.name}`,
+      };
+      break;
+    }
+
+    if (assigned) placed.push(assigned);
+    else unplaced.push({ fixture, reason: 'Every pitch is booked on this match day' });
+  }
+
+  return { placed, unplaced };
+}
+
+// Local start times (minutes after midnight) of every slot that fits inside opening hours
+function slotStarts(venue: VenueAvailability, weekday: number) {
+  const hours = venue.openingHours.find((h) => h.weekday === weekday);
+  if (!hours || venue.slotMinutes <= 0) return [];
+  const opens = toMinutes(hours.opensAt);
+  const closes = toMinutes(hours.closesAt);
+  const starts: number[] = [];
+  for (let m = opens; m + venue.slotMinutes <= closes; m += venue.slotMinutes) starts.push(m);
+  return starts;
+}
+
+function toMinutes(hhmm: string) {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
@@ -0,0 +1,50 @@
+-- Venues, pitches and opening hours used by the fixture generator to allocate clash-free kick-off slots
+
+CREATE TABLE venues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  address TEXT,
+  slot_minutes INT NOT NULL DEFAULT 120 CHECK (slot_minutes > 0), -- length of one kick-off slot
+  max_matches_per_slot INT CHECK (max_matches_per_slot > 0),      -- NULL = one match per pitch
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE pitches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_pitches_venue FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+  CONSTRAINT uq_pitches_venue_name UNIQUE (venue_id, name)
+);
+
+-- One opening window per weekday (0 = Sunday ... 6 = Saturday), local 'HH:MM'
+CREATE TABLE venue_opening_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id UUID NOT NULL,
+  weekday INT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  opens_at TEXT NOT NULL CHECK (opens_at ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  closes_at TEXT NOT NULL CHECK (closes_at ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  CONSTRAINT fk_opening_hours_venue FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+  CONSTRAINT uq_opening_hours_venue_weekday UNIQUE (venue_id, weekday),
+  CONSTRAINT chk_opening_hours_order CHECK (opens_at < closes_at)
+);
+
+ALTER TABLE teams
+  ADD COLUMN home_venue_id UUID,
+  ADD CONSTRAINT fk_teams_home_venue FOREIGN KEY (home_venue_id) REFERENCES venues(id) ON DELETE SET NULL;
+
+-- fixtures.venue stays as a display label; venue_id / pitch_id are the allocation
+ALTER TABLE fixtures
+  ADD COLUMN venue_id UUID,
+  ADD COLUMN pitch_id UUID,
+  ADD CONSTRAINT fk_fixtures_venue FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE SET NULL,
+  ADD CONSTRAINT fk_fixtures_pitch FOREIGN KEY (pitch_id) REFERENCES pitches(id) ON DELETE SET NULL,
+  -- last line of defence against double-booking the same pitch at the same kick-off
+  ADD CONSTRAINT uq_fixtures_pitch_scheduled_at UNIQUE (pitch_id, scheduled_at);
+
+CREATE INDEX idx_pitches_venue_id ON pitches(venue_id);
+CREATE INDEX idx_fixtures_pitch_id ON fixtures(pitch_id);
+CREATE INDEX idx_teams_home_venue_id ON teams(home_venue_id);
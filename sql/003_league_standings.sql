@@ -0,0 +1,12 @@
+-- Per-league standings rules: points per result and the order of tie-breakers applied after points
+
+CREATE TYPE tie_breaker AS ENUM ('HEAD_TO_HEAD', 'GOAL_DIFFERENCE', 'GOALS_FOR');
+
+ALTER TABLE leagues
+  ADD COLUMN points_for_win INT NOT NULL DEFAULT 3,
+  ADD COLUMN points_for_draw INT NOT NULL DEFAULT 1,
+  ADD COLUMN points_for_loss INT NOT NULL DEFAULT 0,
+  ADD COLUMN tie_breakers tie_breaker[] NOT NULL DEFAULT ARRAY['GOAL_DIFFERENCE', 'GOALS_FOR', 'HEAD_TO_HEAD']::tie_breaker[];
+
+-- Standings read completed fixtures per league
+CREATE INDEX idx_fixtures_league_status ON fixtures(league_id, status);
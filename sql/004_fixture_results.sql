@@ -0,0 +1,25 @@
+-- Fixture lifecycle: result confirmation by both managers, and reasons for status changes
+
+CREATE TYPE result_status AS ENUM ('NONE', 'AWAITING_CONFIRMATION', 'CONFIRMED', 'DISPUTED');
+
+ALTER TABLE fixtures
+  ADD COLUMN result_status result_status NOT NULL DEFAULT 'NONE',
+  ADD COLUMN status_reason TEXT; -- why it was postponed / cancelled / overridden
+
+-- One reported score per side of a fixture
+CREATE TABLE score_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fixture_id UUID NOT NULL,
+  team_id UUID NOT NULL,
+  submitted_by_id UUID,
+  home_score INT NOT NULL CHECK (home_score >= 0),
+  away_score INT NOT NULL CHECK (away_score >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_score_reports_fixture FOREIGN KEY (fixture_id) REFERENCES fixtures(id) ON DELETE CASCADE,
+  CONSTRAINT fk_score_reports_team FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  CONSTRAINT fk_score_reports_submitted_by FOREIGN KEY (submitted_by_id) REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT uq_score_reports_fixture_team UNIQUE (fixture_id, team_id)
+);
+
+CREATE INDEX idx_fixtures_result_status ON fixtures(result_status) WHERE result_status = 'DISPUTED';
@@ -0,0 +1,11 @@
+-- Season settings stored on the league (previously only echoed back by POST /api/leagues)
+
+CREATE TYPE match_format AS ENUM ('SINGLE_ROUND_ROBIN', 'DOUBLE_ROUND_ROBIN');
+
+ALTER TABLE leagues
+  ADD COLUMN start_date DATE,
+  ADD COLUMN end_date DATE,
+  ADD COLUMN team_limit INT CHECK (team_limit >= 2),
+  ADD COLUMN match_format match_format NOT NULL DEFAULT 'SINGLE_ROUND_ROBIN',
+  ADD CONSTRAINT chk_leagues_season_dates CHECK (end_date IS NULL OR start_date IS NULL OR end_date > start_date),
+  ADD CONSTRAINT chk_leagues_points CHECK (points_for_win >= points_for_draw AND points_for_draw >= points_for_loss);
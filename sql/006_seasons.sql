@@ -0,0 +1,54 @@
+-- Seasons under a league, with season-scoped team membership and fixtures
+
+CREATE TYPE season_status AS ENUM ('PLANNED', 'ACTIVE', 'COMPLETED');
+
+CREATE TABLE seasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  start_date DATE,
+  end_date DATE,
+  status season_status NOT NULL DEFAULT 'PLANNED',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_seasons_league FOREIGN KEY (league_id) REFERENCES leagues(id) ON DELETE CASCADE,
+  CONSTRAINT uq_seasons_league_name UNIQUE (league_id, name),
+  CONSTRAINT chk_seasons_dates CHECK (end_date IS NULL OR start_date IS NULL OR end_date > start_date)
+);
+
+CREATE TABLE season_teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id UUID NOT NULL,
+  team_id UUID NOT NULL,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  left_at TIMESTAMPTZ,
+  final_position INT,
+  CONSTRAINT fk_season_teams_season FOREIGN KEY (season_id) REFERENCES seasons(id) ON DELETE CASCADE,
+  CONSTRAINT fk_season_teams_team FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  CONSTRAINT uq_season_teams_season_team UNIQUE (season_id, team_id)
+);
+
+-- Only one season per league can be in play at a time
+CREATE UNIQUE INDEX uq_seasons_league_active ON seasons(league_id) WHERE status = 'ACTIVE';
+
+ALTER TABLE fixtures
+  ADD COLUMN season_id UUID,
+  ADD CONSTRAINT fk_fixtures_season FOREIGN KEY (season_id) REFERENCES seasons(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_season_teams_team_id ON season_teams(team_id);
+CREATE INDEX idx_fixtures_season_id ON fixtures(season_id);
+
+-- Backfill: one ACTIVE season per existing league holding its current teams and all its fixtures
+INSERT INTO seasons (league_id, name, start_date, end_date, status)
+SELECT id, to_char(COALESCE(start_date, created_at::date), 'YYYY'), start_date, end_date, 'ACTIVE'
+FROM leagues;
+
+INSERT INTO season_teams (season_id, team_id)
+SELECT s.id, t.id
+FROM teams t
+JOIN seasons s ON s.league_id = t.league_id;
+
+UPDATE fixtures f
+SET season_id = s.id
+FROM seasons s
+WHERE s.league_id = f.league_id;
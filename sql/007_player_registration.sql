@@ -0,0 +1,15 @@
+-- Roster details and registration status for players
+
+CREATE TYPE player_position AS ENUM ('GOALKEEPER', 'DEFENDER', 'MIDFIELDER', 'FORWARD');
+CREATE TYPE registration_status AS ENUM ('PENDING', 'REGISTERED', 'SUSPENDED', 'RELEASED');
+
+ALTER TABLE players
+  ADD COLUMN jersey_number INT CHECK (jersey_number BETWEEN 1 AND 99),
+  ADD COLUMN position player_position,
+  ADD COLUMN registration_status registration_status NOT NULL DEFAULT 'PENDING',
+  -- a jersey number is unique within a team (NULLs allowed for players without one)
+  ADD CONSTRAINT uq_players_team_jersey UNIQUE (team_id, jersey_number);
+
+-- Players already on a team were registered before this migration
+UPDATE players SET registration_status = 'REGISTERED' WHERE team_id IS NOT NULL;
+UPDATE players SET registration_status = 'RELEASED' WHERE team_id IS NULL;
@@ -0,0 +1,19 @@
+-- Injury referral lifecycle: unique references and an audit trail of status changes
+
+ALTER TABLE injuries
+  ADD CONSTRAINT uq_injuries_referral_reference UNIQUE (referral_reference);
+
+CREATE TABLE referral_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  injury_id UUID NOT NULL,
+  from_status referral_status NOT NULL,
+  to_status referral_status NOT NULL,
+  changed_by_id UUID,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_referral_events_injury FOREIGN KEY (injury_id) REFERENCES injuries(id) ON DELETE CASCADE,
+  CONSTRAINT fk_referral_events_changed_by FOREIGN KEY (changed_by_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_referral_events_injury_id ON referral_events(injury_id);
+CREATE INDEX idx_injuries_referral_status ON injuries(referral_status);
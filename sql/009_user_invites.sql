@@ -0,0 +1,12 @@
+-- Invite-based onboarding: an admin preassigns the role a new user gets on first sign-in
+
+CREATE TABLE user_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL UNIQUE,
+  role role NOT NULL,
+  invited_by_id UUID,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_user_invites_invited_by FOREIGN KEY (invited_by_id) REFERENCES users(id) ON DELETE SET NULL
+);
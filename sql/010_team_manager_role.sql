@@ -0,0 +1,40 @@
+-- teams.manager_id must reference a user with role = 'MANAGER' (see the note in 001)
+-- - inserts/updates of teams with a non-manager manager_id are rejected
+-- - when a manager's role changes to anything else, their teams are left without a manager
+
+-- Existing rows that break the rule lose their manager before the trigger is installed
+UPDATE teams t
+SET manager_id = NULL
+FROM users u
+WHERE t.manager_id = u.id AND u.role <> 'MANAGER';
+
+CREATE OR REPLACE FUNCTION enforce_team_manager_role() RETURNS trigger AS $$
+BEGIN
+  IF NEW.manager_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = NEW.manager_id AND role = 'MANAGER'
+  ) THEN
+    RAISE EXCEPTION 'teams.manager_id must reference a user with role MANAGER (got %)', NEW.manager_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_teams_manager_role
+  BEFORE INSERT OR UPDATE OF manager_id ON teams
+  FOR EACH ROW EXECUTE FUNCTION enforce_team_manager_role();
+
+CREATE OR REPLACE FUNCTION release_teams_on_manager_downgrade() RETURNS trigger AS $$
+BEGIN
+  UPDATE teams SET manager_id = NULL, updated_at = now() WHERE manager_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_users_manager_downgrade
+  AFTER UPDATE OF role ON users
+  FOR EACH ROW
+  WHEN (OLD.role = 'MANAGER' AND NEW.role <> 'MANAGER')
+  EXECUTE FUNCTION release_teams_on_manager_downgrade();
+
+CREATE INDEX idx_teams_manager_id ON teams(manager_id);
@@ -0,0 +1,71 @@
+-- Multi-line orders and carts
+-- - each order line is priced through calculateRevenueSplit and stores its own discount,
+--   commission and vendor payout; the order stores the sums
+-- - commission_amount_cents on orders is no longer the hard-coded 10% generated column but
+--   the sum of its lines (set by checkout)
+-- - existing single-product orders become one line each
+
+CREATE TABLE order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL,
+  product_id UUID NOT NULL,
+  quantity INT NOT NULL CHECK (quantity > 0),
+  unit_price_cents INT NOT NULL CHECK (unit_price_cents >= 0),
+  line_total_cents INT NOT NULL CHECK (line_total_cents >= 0),
+  discount_percentage NUMERIC(5,4) NOT NULL DEFAULT 0,
+  discount_amount_cents INT NOT NULL DEFAULT 0 CHECK (discount_amount_cents >= 0),
+  customer_pays_cents INT NOT NULL CHECK (customer_pays_cents >= 0),
+  commission_percentage NUMERIC(5,4) NOT NULL,
+  commission_amount_cents INT NOT NULL CHECK (commission_amount_cents >= 0),
+  vendor_payout_cents INT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_order_lines_order FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+  CONSTRAINT fk_order_lines_product FOREIGN KEY (product_id) REFERENCES products(id)
+);
+
+CREATE INDEX idx_order_lines_order_id ON order_lines(order_id);
+CREATE INDEX idx_order_lines_product_id ON order_lines(product_id);
+
+-- Existing orders: order_total_cents was the amount paid (no discount recorded)
+INSERT INTO order_lines (
+  order_id, product_id, quantity, unit_price_cents, line_total_cents, discount_percentage,
+  discount_amount_cents, customer_pays_cents, commission_percentage, commission_amount_cents,
+  vendor_payout_cents, created_at
+)
+SELECT
+  o.id, o.product_id, o.quantity, o.order_total_cents / o.quantity, o.order_total_cents, 0,
+  0, o.order_total_cents, o.commission_percentage, o.commission_amount_cents,
+  o.order_total_cents - o.commission_amount_cents, o.created_at
+FROM orders o;
+
+ALTER TABLE orders ALTER COLUMN commission_amount_cents DROP EXPRESSION;
+ALTER TABLE orders ALTER COLUMN commission_amount_cents SET DEFAULT 0;
+ALTER TABLE orders ALTER COLUMN commission_amount_cents SET NOT NULL;
+
+ALTER TABLE orders
+  ADD COLUMN subtotal_cents INT,
+  ADD COLUMN discount_amount_cents INT NOT NULL DEFAULT 0,
+  ADD COLUMN vendor_payout_cents INT;
+
+UPDATE orders SET
+  subtotal_cents = order_total_cents,
+  vendor_payout_cents = order_total_cents - commission_amount_cents;
+
+ALTER TABLE orders
+  ALTER COLUMN subtotal_cents SET NOT NULL,
+  ALTER COLUMN vendor_payout_cents SET NOT NULL,
+  DROP COLUMN product_id, -- also drops fk_orders_product and idx_orders_product_id
+  DROP COLUMN quantity,
+  DROP COLUMN commission_percentage;
+
+CREATE TABLE cart_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  product_id UUID NOT NULL,
+  quantity INT NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_cart_items_user_product UNIQUE (user_id, product_id),
+  CONSTRAINT fk_cart_items_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT fk_cart_items_product FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+);
@@ -0,0 +1,61 @@
+-- Configurable commission rates; the stored rate is authoritative for the commission amount
+-- - commission_rates: per vendor, per product category and/or per promotion period
+--   (the applicable rate is picked at checkout and stored on each order line)
+-- - order_lines.commission_amount_cents and vendor_payout_cents are recomputed from the stored
+--   commission_percentage on every insert/update, replacing the old hard-coded 10%
+--   ((order_total_cents + 5) / 10) generated column removed in 011
+-- - orders.commission_amount_cents / vendor_payout_cents are kept equal to the sums of their lines
+
+ALTER TABLE products ADD COLUMN category TEXT;
+
+CREATE TABLE commission_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID,
+  category TEXT,
+  rate NUMERIC(5,4) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  label TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_commission_rates_vendor FOREIGN KEY (vendor_id) REFERENCES vendors(id) ON DELETE CASCADE,
+  CONSTRAINT chk_commission_rates_period CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX idx_commission_rates_vendor_id ON commission_rates(vendor_id);
+
+CREATE OR REPLACE FUNCTION compute_order_line_commission() RETURNS trigger AS $$
+BEGIN
+  NEW.commission_amount_cents := ROUND(NEW.customer_pays_cents * NEW.commission_percentage)::INT;
+  NEW.vendor_payout_cents := NEW.customer_pays_cents - NEW.commission_amount_cents;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_order_lines_commission
+  BEFORE INSERT OR UPDATE OF customer_pays_cents, commission_percentage, commission_amount_cents, vendor_payout_cents
+  ON order_lines
+  FOR EACH ROW EXECUTE FUNCTION compute_order_line_commission();
+
+CREATE OR REPLACE FUNCTION sum_order_commission() RETURNS trigger AS $$
+DECLARE
+  target UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.order_id ELSE NEW.order_id END;
+BEGIN
+  UPDATE orders o SET
+    commission_amount_cents = s.commission,
+    vendor_payout_cents = s.payout,
+    updated_at = now()
+  FROM (
+    SELECT COALESCE(SUM(commission_amount_cents), 0) AS commission, COALESCE(SUM(vendor_payout_cents), 0) AS payout
+    FROM order_lines WHERE order_id = target
+  ) s
+  WHERE o.id = target;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_order_lines_sum_commission
+  AFTER INSERT OR UPDATE OR DELETE ON order_lines
+  FOR EACH ROW EXECUTE FUNCTION sum_order_commission();
+
+-- Recompute existing lines (and through them, their orders) from the stored rates
+UPDATE order_lines SET commission_percentage = commission_percentage;
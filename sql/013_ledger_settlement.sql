@@ -0,0 +1,110 @@
+-- Vendor payout ledger and settlement statements
+-- - ledger_transactions / ledger_entries: double-entry postings for payments, refunds and payouts;
+--   the entries of a transaction must sum to zero (checked at commit)
+-- - vendor_payouts: money sent to vendors
+-- - settlement_statements: per-vendor figures for a period
+
+CREATE TYPE ledger_account AS ENUM ('CASH', 'COMMISSION_REVENUE', 'VENDOR_PAYABLE');
+CREATE TYPE ledger_kind AS ENUM ('PAYMENT', 'REFUND', 'PAYOUT');
+
+CREATE TABLE vendor_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL,
+  amount_cents INT NOT NULL CHECK (amount_cents > 0),
+  reference TEXT,
+  paid_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by_id UUID,
+  CONSTRAINT fk_vendor_payouts_vendor FOREIGN KEY (vendor_id) REFERENCES vendors(id),
+  CONSTRAINT fk_vendor_payouts_created_by FOREIGN KEY (created_by_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE ledger_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind ledger_kind NOT NULL,
+  order_id UUID,
+  payout_id UUID UNIQUE,
+  memo TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_ledger_transactions_order_kind UNIQUE (order_id, kind),
+  CONSTRAINT fk_ledger_transactions_order FOREIGN KEY (order_id) REFERENCES orders(id),
+  CONSTRAINT fk_ledger_transactions_payout FOREIGN KEY (payout_id) REFERENCES vendor_payouts(id)
+);
+
+CREATE TABLE ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL,
+  account ledger_account NOT NULL,
+  vendor_id UUID NOT NULL,
+  amount_cents INT NOT NULL CHECK (amount_cents <> 0),
+  CONSTRAINT fk_ledger_entries_transaction FOREIGN KEY (transaction_id) REFERENCES ledger_transactions(id) ON DELETE CASCADE,
+  CONSTRAINT fk_ledger_entries_vendor FOREIGN KEY (vendor_id) REFERENCES vendors(id)
+);
+
+CREATE INDEX idx_ledger_entries_vendor_account ON ledger_entries(vendor_id, account);
+CREATE INDEX idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+CREATE INDEX idx_ledger_transactions_occurred_at ON ledger_transactions(occurred_at);
+
+CREATE OR REPLACE FUNCTION assert_ledger_transaction_balanced() RETURNS trigger AS $$
+DECLARE
+  target UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.transaction_id ELSE NEW.transaction_id END;
+  total BIGINT;
+BEGIN
+  SELECT COALESCE(SUM(amount_cents), 0) INTO total FROM ledger_entries WHERE transaction_id = target;
+  IF total <> 0 THEN
+    RAISE EXCEPTION 'ledger transaction % is unbalanced by % cents', target, total
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER trg_ledger_entries_balanced
+  AFTER INSERT OR UPDATE OR DELETE ON ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION assert_ledger_transaction_balanced();
+
+CREATE TABLE settlement_statements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  opening_balance_cents INT NOT NULL,
+  sales_cents INT NOT NULL,
+  commission_cents INT NOT NULL,
+  refunds_cents INT NOT NULL,
+  payouts_cents INT NOT NULL,
+  amount_due_cents INT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_settlement_statements_vendor_period UNIQUE (vendor_id, period_start, period_end),
+  CONSTRAINT chk_settlement_statements_period CHECK (period_end > period_start),
+  CONSTRAINT fk_settlement_statements_vendor FOREIGN KEY (vendor_id) REFERENCES vendors(id)
+);
+
+-- Post orders that were already paid (and refunded) before the ledger existed;
+-- updated_at is the best available timestamp
+INSERT INTO ledger_transactions (kind, order_id, memo, occurred_at)
+SELECT 'PAYMENT', id, 'Backfilled from order status', updated_at
+FROM orders WHERE status IN ('PAID', 'SHIPPED', 'REFUNDED');
+
+INSERT INTO ledger_transactions (kind, order_id, memo, occurred_at)
+SELECT 'REFUND', id, 'Backfilled from order status', updated_at
+FROM orders WHERE status = 'REFUNDED';
+
+INSERT INTO ledger_entries (transaction_id, account, vendor_id, amount_cents)
+SELECT t.id, a.account, v.vendor_id, CASE WHEN t.kind = 'PAYMENT' THEN a.amount ELSE -a.amount END
+FROM ledger_transactions t
+JOIN (
+  SELECT ol.order_id, p.vendor_id,
+         SUM(ol.customer_pays_cents) AS pays,
+         SUM(ol.commission_amount_cents) AS commission,
+         SUM(ol.vendor_payout_cents) AS payout
+  FROM order_lines ol
+  JOIN products p ON p.id = ol.product_id
+  GROUP BY ol.order_id, p.vendor_id
+) v ON v.order_id = t.order_id
+CROSS JOIN LATERAL (VALUES
+  ('CASH'::ledger_account, v.pays),
+  ('VENDOR_PAYABLE'::ledger_account, -v.payout),
+  ('COMMISSION_REVENUE'::ledger_account, -v.commission)
+) AS a(account, amount)
+WHERE a.amount <> 0;
@@ -0,0 +1,23 @@
+-- Hive member discount worked out on the server instead of trusted from the client
+-- - member_discount_policy: single configurable row (discount rate, per-season cap, expiry grace days)
+-- - vendors.member_discount_opt_out: vendors whose products never get the member discount
+-- - orders.discount_season_id: season whose allowance a discounted order used (for the per-season cap)
+
+CREATE TABLE member_discount_policy (
+  id TEXT PRIMARY KEY DEFAULT 'default' CHECK (id = 'default'),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  discount_percentage NUMERIC(5,4) NOT NULL DEFAULT 0.15 CHECK (discount_percentage >= 0 AND discount_percentage < 1),
+  season_cap_cents INT CHECK (season_cap_cents IS NULL OR season_cap_cents >= 0),
+  expiry_grace_days INT NOT NULL DEFAULT 0 CHECK (expiry_grace_days >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO member_discount_policy (id) VALUES ('default');
+
+ALTER TABLE vendors ADD COLUMN member_discount_opt_out BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE orders ADD COLUMN discount_season_id UUID;
+ALTER TABLE orders ADD CONSTRAINT fk_orders_discount_season
+  FOREIGN KEY (discount_season_id) REFERENCES seasons(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_orders_buyer_discount_season ON orders(buyer_id, discount_season_id);
@@ -0,0 +1,68 @@
+-- Vendor catalogue: product variants (size/colour) with their own SKU and stock, product images
+-- - products bought by variant reserve stock at checkout (stock_quantity is decremented) and get it
+--   back when the order is cancelled; stock can never go negative
+-- - products without variants are sold as before (no stock tracking)
+-- - products are archived rather than deleted once ordered
+
+ALTER TABLE products
+  ADD COLUMN description TEXT,
+  ADD COLUMN archived_at TIMESTAMPTZ;
+
+CREATE TABLE product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL,
+  sku TEXT NOT NULL UNIQUE,
+  size TEXT,
+  color TEXT,
+  price_cents INT CHECK (price_cents IS NULL OR price_cents >= 0),
+  stock_quantity INT NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_product_variants_option UNIQUE NULLS NOT DISTINCT (product_id, size, color),
+  CONSTRAINT fk_product_variants_product FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+);
+
+CREATE TABLE product_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL,
+  url TEXT NOT NULL,
+  alt_text TEXT,
+  position INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_product_images_product FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_product_images_product_id ON product_images(product_id, position);
+
+-- Cart lines and order lines remember the variant bought
+ALTER TABLE cart_items ADD COLUMN variant_id UUID;
+ALTER TABLE cart_items ADD CONSTRAINT fk_cart_items_variant
+  FOREIGN KEY (variant_id) REFERENCES product_variants(id) ON DELETE CASCADE;
+ALTER TABLE cart_items DROP CONSTRAINT uq_cart_items_user_product;
+ALTER TABLE cart_items ADD CONSTRAINT uq_cart_items_user_product_variant
+  UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+
+ALTER TABLE order_lines ADD COLUMN variant_id UUID;
+ALTER TABLE order_lines ADD CONSTRAINT fk_order_lines_variant
+  FOREIGN KEY (variant_id) REFERENCES product_variants(id);
+CREATE INDEX idx_order_lines_variant_id ON order_lines(variant_id);
+
+-- A variant must belong to the line's product
+CREATE OR REPLACE FUNCTION check_line_variant_product() RETURNS trigger AS $$
+BEGIN
+  IF NEW.variant_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM product_variants v WHERE v.id = NEW.variant_id AND v.product_id = NEW.product_id
+  ) THEN
+    RAISE EXCEPTION 'variant % does not belong to product %', NEW.variant_id, NEW.product_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_cart_items_variant_product
+  BEFORE INSERT OR UPDATE OF product_id, variant_id ON cart_items
+  FOR EACH ROW EXECUTE FUNCTION check_line_variant_product();
+
+CREATE TRIGGER trg_order_lines_variant_product
+  BEFORE INSERT OR UPDATE OF product_id, variant_id ON order_lines
+  FOR EACH ROW EXECUTE FUNCTION check_line_variant_product();
@@ -0,0 +1,15 @@
+-- Team kit orders: one order placed by a team manager for the squad
+-- - orders.team_id marks a team order (the buyer is the manager)
+-- - order_lines.player_id / print_name / print_number say who each item is for and what to print;
+--   the vendor's packing list is grouped by player
+
+ALTER TABLE orders ADD COLUMN team_id UUID;
+ALTER TABLE orders ADD CONSTRAINT fk_orders_team FOREIGN KEY (team_id) REFERENCES teams(id);
+CREATE INDEX idx_orders_team_id ON orders(team_id);
+
+ALTER TABLE order_lines
+  ADD COLUMN player_id UUID,
+  ADD COLUMN print_name TEXT,
+  ADD COLUMN print_number INT CHECK (print_number IS NULL OR print_number BETWEEN 0 AND 99);
+ALTER TABLE order_lines ADD CONSTRAINT fk_order_lines_player FOREIGN KEY (player_id) REFERENCES players(id);
+CREATE INDEX idx_order_lines_player_id ON order_lines(player_id);
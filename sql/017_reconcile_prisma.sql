@@ -0,0 +1,10 @@
+-- Reconcile the database with schema.prisma, which is now the source of truth for new migrations
+-- - teams.league_id is optional: a team removed from its league keeps its players, history and orders
+--   (deleting a league unassigns its teams instead of deleting them)
+-- - orders.commission_amount_cents stopped being a generated column in 011; nothing to do here
+
+ALTER TABLE teams ALTER COLUMN league_id DROP NOT NULL;
+
+ALTER TABLE teams DROP CONSTRAINT fk_teams_league;
+ALTER TABLE teams
+  ADD CONSTRAINT fk_teams_league FOREIGN KEY (league_id) REFERENCES leagues(id) ON DELETE SET NULL;
@@ -0,0 +1,54 @@
+-- Injury return to play and match-day squads
+-- - an injury moves REST → LIGHT_TRAINING → FULL_TRAINING → CLEARED; HIGH / CRITICAL injuries need a
+--   clinic or medic sign-off to be cleared
+-- - a player is unavailable for a fixture while an injury reported before it is not yet cleared
+-- - fixture_squad_players is the match-day squad; acknowledged_blockers notes an unavailable player
+--   the manager picked anyway
+
+CREATE TYPE return_to_play_stage AS ENUM ('REST', 'LIGHT_TRAINING', 'FULL_TRAINING', 'CLEARED');
+CREATE TYPE clearance_source AS ENUM ('CLINIC', 'MEDIC');
+
+ALTER TABLE injuries
+  ADD COLUMN return_to_play_stage return_to_play_stage NOT NULL DEFAULT 'REST',
+  ADD COLUMN expected_return_date DATE,
+  ADD COLUMN cleared_at TIMESTAMPTZ,
+  ADD COLUMN cleared_by_name TEXT,
+  ADD COLUMN clearance_source clearance_source;
+
+-- Injuries whose referral was completed before this workflow existed count as cleared then
+UPDATE injuries
+SET return_to_play_stage = 'CLEARED', cleared_at = updated_at
+WHERE referral_status = 'COMPLETED';
+
+CREATE TABLE return_to_play_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  injury_id UUID NOT NULL,
+  from_stage return_to_play_stage NOT NULL,
+  to_stage return_to_play_stage NOT NULL,
+  changed_by_id UUID,
+  signed_off_by TEXT,
+  clearance_source clearance_source,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_return_to_play_events_injury FOREIGN KEY (injury_id) REFERENCES injuries(id) ON DELETE CASCADE,
+  CONSTRAINT fk_return_to_play_events_changed_by FOREIGN KEY (changed_by_id) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_return_to_play_events_injury_id ON return_to_play_events(injury_id);
+
+CREATE TABLE fixture_squad_players (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fixture_id UUID NOT NULL,
+  team_id UUID NOT NULL,
+  player_id UUID NOT NULL,
+  selected_by_id UUID,
+  acknowledged_blockers TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_fixture_squad_players_fixture FOREIGN KEY (fixture_id) REFERENCES fixtures(id) ON DELETE CASCADE,
+  CONSTRAINT fk_fixture_squad_players_team FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  CONSTRAINT fk_fixture_squad_players_player FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE,
+  CONSTRAINT fk_fixture_squad_players_selected_by FOREIGN KEY (selected_by_id) REFERENCES users(id) ON DELETE SET NULL,
+  CONSTRAINT uq_fixture_squad_players_fixture_player UNIQUE (fixture_id, player_id)
+);
+
+CREATE INDEX idx_fixture_squad_players_fixture_team ON fixture_squad_players(fixture_id, team_id);
@@ -0,0 +1,59 @@
+-- Head-injury (concussion) safeguarding
+-- - a Head injury is referred to the clinic straight away, stood down for a minimum number of days by
+--   age group, and blocked from fixtures until a clearance document is recorded
+-- - admins are alerted through notifications; every override is kept in safeguarding_events
+
+CREATE TYPE safeguarding_action AS ENUM (
+  'CONCUSSION_REPORTED', 'CLEARANCE_RECORDED', 'STAND_DOWN_OVERRIDDEN', 'CLEARANCE_WAIVED', 'SAFEGUARDING_LIFTED'
+);
+
+ALTER TABLE injuries
+  ADD COLUMN safeguarding BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN stand_down_until TIMESTAMPTZ,
+  ADD COLUMN clearance_document_url TEXT,
+  ADD COLUMN clearance_document_issued_by TEXT,
+  ADD COLUMN clearance_document_recorded_at TIMESTAMPTZ,
+  ADD COLUMN clearance_waived_at TIMESTAMPTZ;
+
+CREATE TABLE safeguarding_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  injury_id UUID NOT NULL,
+  action safeguarding_action NOT NULL,
+  actor_id UUID,
+  reason TEXT,
+  detail TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_safeguarding_events_injury FOREIGN KEY (injury_id) REFERENCES injuries(id) ON DELETE CASCADE,
+  CONSTRAINT fk_safeguarding_events_actor FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE SET NULL,
+  -- overrides must say why
+  CONSTRAINT chk_safeguarding_events_override_reason CHECK (
+    action NOT IN ('STAND_DOWN_OVERRIDDEN', 'CLEARANCE_WAIVED', 'SAFEGUARDING_LIFTED') OR reason IS NOT NULL
+  )
+);
+
+CREATE INDEX idx_safeguarding_events_injury_id ON safeguarding_events(injury_id);
+
+CREATE TABLE concussion_stand_down_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  under_age INT CHECK (under_age BETWEEN 5 AND 99),
+  min_days INT NOT NULL CHECK (min_days BETWEEN 1 AND 365),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Defaults: under-19s stand down 23 days, everyone else 21
+INSERT INTO concussion_stand_down_rules (under_age, min_days) VALUES (19, 23), (NULL, 21);
+
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  kind TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  injury_id UUID,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fk_notifications_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT fk_notifications_injury FOREIGN KEY (injury_id) REFERENCES injuries(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_notifications_user_read ON notifications(user_id, read_at);
@@ -0,0 +1,7 @@
+-- Referral vouchers rendered as PDF on the server
+-- - each voucher carries a signed verification token (HMAC of the injury id); nothing to store for it
+-- - the clinic redeems a voucher once, which completes the referral
+
+ALTER TABLE injuries
+  ADD COLUMN voucher_redeemed_at TIMESTAMPTZ,
+  ADD COLUMN voucher_redeemed_by TEXT;
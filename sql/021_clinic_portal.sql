@@ -0,0 +1,53 @@
+-- Clinic portal
+-- - managers refer injured players to a configured clinic instead of a free-text name
+-- - clinic staff (role CLINIC_STAFF, linked to one clinic) accept or decline referrals, record the
+--   appointment and outcome, and complete them; the reporting manager is notified of each change
+-- - ALTER TYPE ... ADD VALUE cannot run inside a transaction block before PostgreSQL 12
+
+ALTER TYPE role ADD VALUE IF NOT EXISTS 'CLINIC_STAFF';
+
+CREATE TYPE clinic_decision AS ENUM ('ACCEPTED', 'DECLINED');
+
+CREATE TABLE clinics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT uq_clinics_name UNIQUE (name)
+);
+
+ALTER TABLE users
+  ADD COLUMN clinic_id UUID,
+  ADD CONSTRAINT fk_users_clinic FOREIGN KEY (clinic_id) REFERENCES clinics(id) ON DELETE SET NULL;
+
+ALTER TABLE user_invites
+  ADD COLUMN clinic_id UUID,
+  ADD CONSTRAINT fk_user_invites_clinic FOREIGN KEY (clinic_id) REFERENCES clinics(id) ON DELETE CASCADE;
+
+ALTER TABLE injuries
+  ADD COLUMN clinic_id UUID,
+  ADD COLUMN clinic_decision clinic_decision,
+  ADD COLUMN clinic_decided_at TIMESTAMPTZ,
+  ADD COLUMN clinic_decline_reason TEXT,
+  ADD COLUMN appointment_at TIMESTAMPTZ,
+  ADD COLUMN clinic_outcome_notes TEXT,
+  ADD CONSTRAINT fk_injuries_clinic FOREIGN KEY (clinic_id) REFERENCES clinics(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_injuries_clinic_status ON injuries(clinic_id, referral_status);
+
+-- Every referral so far went to a free-text clinic name (the form always sent "AO Clinic");
+-- create those clinics and link the referrals. REFERRED and COMPLETED ones were handled outside the
+-- portal, so they count as accepted; PENDING ones show up as incoming.
+INSERT INTO clinics (name)
+SELECT DISTINCT referred_to FROM injuries WHERE referred_to IS NOT NULL AND btrim(referred_to) <> ''
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE injuries i
+SET clinic_id = c.id,
+    clinic_decision = CASE WHEN i.referral_status IN ('REFERRED', 'COMPLETED') THEN 'ACCEPTED'::clinic_decision END
+FROM clinics c
+WHERE c.name = i.referred_to;